@@ -14,6 +14,8 @@ export default {
     ],
   },
   testEnvironment: "node",
+  testPathIgnorePatterns: ["/node_modules/", "/__tests__/helpers/"],
+  setupFiles: ["<rootDir>/src/__tests__/helpers/setup.ts"],
   collectCoverageFrom: ["src/**/*.ts"],
   coveragePathIgnorePatterns: ["/node_modules/", "__tests__"],
   globals: {
@@ -0,0 +1,148 @@
+import { StackOverflowServer } from "../index.js";
+import { jest, describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Store the original fetch
+const originalFetch = global.fetch;
+
+// Create a custom fetch function type
+// @ts-ignore
+type FetchFunc = typeof global.fetch;
+
+const question = (ownerId: number) => ({
+  post_id: 12345,
+  post_type: "question",
+  owner: { user_id: ownerId, display_name: ownerId === 1 ? "dev" : "someone" },
+  title: "Build fails with ENOSPC",
+  score: 0,
+  link: "https://stackoverflow.com/q/12345",
+});
+
+describe("Accept Answer", () => {
+  let mockFetch: jest.MockedFunction<FetchFunc>;
+  let auditDir: string;
+  let ownerId: number;
+  let accepted: boolean;
+
+  beforeEach(async () => {
+    auditDir = await mkdtemp(join(tmpdir(), "so-audit-"));
+    process.env.STACKOVERFLOW_AUDIT_LOG = join(auditDir, "audit.jsonl");
+    ownerId = 1;
+    accepted = false;
+    mockFetch = jest.fn() as jest.MockedFunction<FetchFunc>;
+    mockFetch.mockImplementation((input) => {
+      const path = new URL(input as string).pathname.replace("/2.3", "");
+      let items: object[] = [];
+      if (path === "/me") {
+        items = [{ user_id: 1, display_name: "dev", reputation: 1 }];
+      } else if (path === "/me/privileges") {
+        items = [{ short_description: "create posts", description: "", reputation: 1 }];
+      } else if (path === "/posts/12345") {
+        items = [question(ownerId)];
+      } else if (path === "/answers/77") {
+        items = [
+          {
+            answer_id: 77,
+            question_id: 12345,
+            score: 3,
+            is_accepted: accepted,
+            link: "https://stackoverflow.com/a/77",
+          },
+        ];
+      } else if (path === "/answers/88") {
+        items = [{ answer_id: 88, question_id: 999, score: 1, is_accepted: false }];
+      }
+      return Promise.resolve({ ok: true, json: () => Promise.resolve({ items }) } as Response);
+    });
+    global.fetch = mockFetch;
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    delete process.env.STACKOVERFLOW_AUDIT_LOG;
+    await rm(auditDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  const writeServer = () => {
+    const server = new StackOverflowServer() as any;
+    server.apiKey = "key";
+    server.accessToken = "token";
+    return server;
+  };
+
+  const posted = () =>
+    mockFetch.mock.calls
+      .filter(([, init]) => (init as RequestInit | undefined)?.method === "POST")
+      .map(([input]) => new URL(input as string).pathname);
+
+  test("should accept an answer on our question after confirmation and audit it", async () => {
+    const server = writeServer();
+
+    const preview = await server.runWriteTool("accept_answer", {
+      questionId: 12345,
+      answerId: 77,
+      confirmedFixed: true,
+    });
+    const { confirmationToken, request, preview: text } = JSON.parse(preview.content[0].text);
+    expect(request.url).toBe("https://api.stackexchange.com/2.3/answers/77/accept");
+    expect(text).toBe("Accept answer 77 on: Build fails with ENOSPC");
+    expect(posted()).toHaveLength(0);
+
+    const result = await server.handleConfirmAction({ token: confirmationToken });
+    expect(result.content[0].text).toBe("Answer accepted successfully");
+    expect(posted()).toEqual(["/2.3/answers/77/accept"]);
+
+    const entries = (await readFile(process.env.STACKOVERFLOW_AUDIT_LOG as string, "utf8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(entries.map((entry) => [entry.tool, entry.outcome, entry.targetPostId])).toEqual([
+      ["accept_answer", "pending_confirmation", 77],
+      ["accept_answer", "posted", 77],
+    ]);
+  });
+
+  test("should undo an acceptance without an attestation", async () => {
+    accepted = true;
+
+    const result = await writeServer().handleAcceptAnswer({
+      questionId: 12345,
+      answerId: 77,
+      undo: true,
+      dryRun: true,
+    });
+    expect(JSON.parse(result.content[0].text).request.url).toBe(
+      "https://api.stackexchange.com/2.3/answers/77/accept/undo"
+    );
+
+    await expect(
+      writeServer().handleAcceptAnswer({ questionId: 12345, answerId: 77, confirmedFixed: true })
+    ).rejects.toThrow("Refusing to accept: the answer is already accepted");
+  });
+
+  test("should refuse without confirmedFixed, on others' questions and foreign answers", async () => {
+    await expect(
+      writeServer().handleAcceptAnswer({ questionId: 12345, answerId: 77, confirmedFixed: false })
+    ).rejects.toThrow("Refusing to accept: confirmedFixed must be true");
+    await expect(
+      writeServer().handleAcceptAnswer({ questionId: 12345, answerId: 77 })
+    ).rejects.toThrow("Refusing to accept: confirmedFixed must be true");
+
+    await expect(
+      writeServer().handleAcceptAnswer({ questionId: 12345, answerId: 88, confirmedFixed: true })
+    ).rejects.toThrow("Refusing to accept: answer 88 belongs to question 999, not 12345");
+
+    await expect(
+      writeServer().handleAcceptAnswer({ questionId: 12345, answerId: 77, undo: true })
+    ).rejects.toThrow("Refusing to undo the acceptance: the answer is not accepted");
+
+    ownerId = 2;
+    await expect(
+      writeServer().handleAcceptAnswer({ questionId: 12345, answerId: 77, confirmedFixed: true })
+    ).rejects.toThrow("Refusing to accept: post 12345 belongs to someone, not dev");
+    expect(posted()).toHaveLength(0);
+  });
+});
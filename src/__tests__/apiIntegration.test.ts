@@ -214,13 +214,13 @@ describe("Stack Exchange API Integration", () => {
       .mockImplementationOnce(() =>
         Promise.resolve({
           ok: true,
-          json: () => Promise.resolve(mockCommentsResponse),
-        } as Response)
-      )
-      .mockImplementationOnce(() =>
-        Promise.resolve({
-          ok: true,
-          json: () => Promise.resolve(mockCommentsResponse),
+          json: () =>
+            Promise.resolve({
+              items: [
+                ...mockCommentsResponse.items,
+                { ...mockCommentsResponse.items[0], comment_id: 54322, post_id: 67890 },
+              ],
+            }),
         } as Response)
       );
 
@@ -236,5 +236,54 @@ describe("Stack Exchange API Integration", () => {
     expect(results[0].comments).toBeDefined();
     expect(results[0].comments?.question).toHaveLength(1);
     expect(results[0].comments?.answers[67890]).toHaveLength(1);
+
+    // Question and answer comments are fetched in a single batched request
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    const commentsUrl = new URL(mockFetch.mock.calls[2][0] as string);
+    expect(commentsUrl.pathname).toBe("/2.3/posts/12345;67890/comments");
+  });
+
+  test("should batch answer fetches for multiple questions", async () => {
+    const secondQuestion = {
+      ...mockQuestionResponse.items[0],
+      question_id: 12346,
+      accepted_answer_id: undefined,
+    };
+
+    mockFetch
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              items: [...mockQuestionResponse.items, secondQuestion],
+            }),
+        } as Response)
+      )
+      .mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              items: [
+                ...mockAnswersResponse.items,
+                { ...mockAnswersResponse.items[0], answer_id: 67891, question_id: 12346 },
+              ],
+            }),
+        } as Response)
+      );
+
+    const results = await (server as any).searchStackOverflow("test query");
+
+    // Answers are regrouped under their questions
+    expect(results).toHaveLength(2);
+    expect(results[0].answers[0].answer_id).toBe(67890);
+    expect(results[1].answers[0].answer_id).toBe(67891);
+
+    // One search request plus one batched answers request
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    const answersUrl = new URL(mockFetch.mock.calls[1][0] as string);
+    expect(answersUrl.pathname).toBe("/2.3/questions/12345;12346/answers");
+    expect(answersUrl.searchParams.get("pagesize")).toBe("100");
   });
 });
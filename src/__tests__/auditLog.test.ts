@@ -0,0 +1,210 @@
+import { StackOverflowServer } from "../index.js";
+import { AuditLog } from "../audit/index.js";
+import { seedAccount } from "./helpers/account.js";
+import { jest, describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Store the original fetch
+const originalFetch = global.fetch;
+
+// Create a custom fetch function type
+// @ts-ignore
+type FetchFunc = typeof global.fetch;
+
+const question = {
+  question_id: 12345,
+  title: "Build fails",
+  body: "<p>Question body</p>",
+  score: 1,
+  answer_count: 0,
+  is_answered: false,
+  creation_date: 1615000000,
+  tags: ["node.js"],
+  link: "https://stackoverflow.com/q/12345",
+};
+
+describe("Audit Log", () => {
+  let mockFetch: jest.MockedFunction<FetchFunc>;
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "so-audit-"));
+    logPath = join(dir, "nested", "audit.jsonl");
+    process.env.STACKOVERFLOW_AUDIT_LOG = logPath;
+
+    mockFetch = jest.fn() as jest.MockedFunction<FetchFunc>;
+    mockFetch.mockImplementation((input, init) => {
+      const path = new URL(input as string).pathname;
+      const items =
+        init?.method === "POST"
+          ? [{ answer_id: 999, question_id: 12345, link: "https://stackoverflow.com/a/999" }]
+          : path.startsWith("/2.3/questions/12345")
+            ? [question]
+            : [];
+      return Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ items, quota_remaining: 9000, quota_max: 10000 }),
+      } as Response);
+    });
+    global.fetch = mockFetch;
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    delete process.env.STACKOVERFLOW_AUDIT_LOG;
+    await rm(dir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  const writeServer = () => {
+    const server = new StackOverflowServer();
+    (server as any).apiKey = "key";
+    (server as any).accessToken = "token";
+    seedAccount(server);
+    return server;
+  };
+
+  const entries = async () =>
+    (await readFile(logPath, "utf8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+
+  test("should record the pending confirmation and the published write", async () => {
+    const server = writeServer();
+    const solution = {
+      questionId: 12345,
+      body: "Raise fs.inotify.max_user_watches",
+      confirmedResolved: true,
+      evidence: ["watcher starts"],
+    };
+
+    const held = JSON.parse(
+      (await (server as any).runWriteTool("post_solution", solution)).content[0].text
+    );
+    await (server as any).handleConfirmAction({ token: held.confirmationToken });
+
+    const [pending, posted] = await entries();
+    expect(pending).toMatchObject({
+      tool: "post_solution",
+      site: "stackoverflow",
+      targetPostId: 12345,
+      outcome: "pending_confirmation",
+    });
+    expect(pending.payloadHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(posted).toMatchObject({
+      outcome: "posted",
+      payloadHash: pending.payloadHash,
+      responseId: 999,
+      link: "https://stackoverflow.com/a/999",
+      quotaRemaining: 9000,
+    });
+    expect(Date.parse(posted.timestamp)).not.toBeNaN();
+    // Bodies and credentials never reach the log
+    const raw = await readFile(logPath, "utf8");
+    expect(raw).not.toContain("max_user_watches");
+    expect(raw).not.toContain("access_token");
+  });
+
+  test("should record refusals with their reason and API errors as failures", async () => {
+    const server = writeServer();
+
+    await expect(
+      (server as any).runWriteTool("thumbs_up", { postId: 7, confirmedFixed: false })
+    ).rejects.toThrow("confirmedFixed must be true");
+
+    await expect(
+      (server as any).runWriteTool("thumbs_up", { postId: 7, confirmedFixed: true })
+    ).resolves.toBeDefined();
+
+    (server as any).requireConfirmation = false;
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      json: () => Promise.resolve({ error_id: 400, error_name: "bad_parameter", error_message: "no" }),
+    } as Response);
+    await expect(
+      (server as any).runWriteTool("thumbs_up", { postId: 7, confirmedFixed: true })
+    ).rejects.toThrow();
+
+    const [refused, pending, failed] = await entries();
+    expect(refused).toMatchObject({
+      tool: "thumbs_up",
+      targetPostId: 7,
+      outcome: "refused",
+      reason: "MCP error -32600: Refusing to upvote: confirmedFixed must be true",
+    });
+    expect(refused.payloadHash).toBeUndefined();
+    expect(pending.outcome).toBe("pending_confirmation");
+    expect(failed.outcome).toBe("failed");
+    expect(failed.payloadHash).toBe(pending.payloadHash);
+  });
+
+  test("should filter by date range, outcome and tool, newest first", async () => {
+    await writeFile(
+      logPath.replace("nested/", ""),
+      [
+        { timestamp: "2026-10-01T10:00:00.000Z", tool: "thumbs_up", site: "stackoverflow", outcome: "posted" },
+        { timestamp: "2026-10-02T23:30:00.000Z", tool: "post_question", site: "stackoverflow", outcome: "refused", reason: "duplicate" },
+        { timestamp: "2026-10-03T08:00:00.000Z", tool: "thumbs_up", site: "stackoverflow", outcome: "refused" },
+      ]
+        .map((entry) => JSON.stringify(entry))
+        .join("\n") + "\n{\"timestamp\":"
+    );
+    const log = new AuditLog(logPath.replace("nested/", ""));
+
+    const all = await log.query();
+    expect(all.total).toBe(3);
+    expect(all.entries.map((entry) => entry.timestamp.slice(0, 10))).toEqual([
+      "2026-10-03",
+      "2026-10-02",
+      "2026-10-01",
+    ]);
+
+    const range = await log.query({ from: "2026-10-02", to: "2026-10-02" });
+    expect(range.entries.map((entry) => entry.tool)).toEqual(["post_question"]);
+
+    const refused = await log.query({ outcome: "refused", tool: "thumbs_up" });
+    expect(refused.entries).toHaveLength(1);
+    expect(refused.entries[0].timestamp).toBe("2026-10-03T08:00:00.000Z");
+
+    expect((await log.query({ limit: 1 })).entries).toHaveLength(1);
+    await expect(new AuditLog(join(dir, "missing.jsonl")).query()).resolves.toEqual({
+      entries: [],
+      total: 0,
+    });
+    await expect(log.query({ from: "last week" })).rejects.toThrow("Invalid date: last week");
+  });
+
+  test("should include entries at exactly the from and to timestamps", async () => {
+    const log = new AuditLog(logPath);
+    const times = ["2026-10-02T09:00:00.000Z", "2026-10-02T10:00:00.000Z", "2026-10-03T00:00:00.000Z"];
+    for (const timestamp of times) {
+      await log.append({ timestamp, tool: "thumbs_up", site: "stackoverflow", outcome: "posted" });
+    }
+
+    const exact = await log.query({ from: times[0], to: times[1] });
+    expect(exact.entries.map((entry) => entry.timestamp)).toEqual([times[1], times[0]]);
+
+    const day = await log.query({ to: "2026-10-02" });
+    expect(day.total).toBe(2);
+  });
+
+  test("should serve list_audit_log from the configured log", async () => {
+    const server = writeServer();
+    await (server as any).runWriteTool("thumbs_up", { postId: 7, confirmedFixed: true, dryRun: true });
+
+    const result = JSON.parse(
+      (await (server as any).handleListAuditLog({ outcome: "dry_run" })).content[0].text
+    );
+    expect(result.total).toBe(1);
+    expect(result.entries[0]).toMatchObject({ tool: "thumbs_up", outcome: "dry_run" });
+
+    await expect((server as any).handleListAuditLog({ to: "soon" })).rejects.toThrow(
+      "Invalid date: soon"
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import { StackOverflowServer } from "../index.js";
+import {
+  buildAuthorizeUrl,
+  exchangeCode,
+  listenForCallback,
+  loadCredentials,
+  resolveAuth,
+  saveCredentials,
+  deleteCredentials,
+} from "../auth/index.js";
+import { jest, describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Store the original fetch
+const originalFetch = global.fetch;
+
+describe("OAuth Login", () => {
+  let dir: string;
+  let path: string;
+  // Set by helpers/setup.ts so nothing reads the real credentials file
+  const noCredentials = process.env.STACKOVERFLOW_CREDENTIALS;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "so-auth-"));
+    path = join(dir, "nested", "credentials.json");
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    process.env.STACKOVERFLOW_CREDENTIALS = noCredentials;
+    delete process.env.STACKOVERFLOW_API_KEY;
+    delete process.env.STACKOVERFLOW_ACCESS_TOKEN;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("should request the write, no_expiry and read_inbox scopes", () => {
+    const url = new URL(buildAuthorizeUrl("123", "http://localhost:8765/callback", "xyz"));
+    expect(url.origin + url.pathname).toBe("https://stackoverflow.com/oauth");
+    expect(url.searchParams.get("client_id")).toBe("123");
+    expect(url.searchParams.get("scope")).toBe("write_access,no_expiry,read_inbox");
+    expect(url.searchParams.get("redirect_uri")).toBe("http://localhost:8765/callback");
+    expect(url.searchParams.get("state")).toBe("xyz");
+  });
+
+  test("should receive the code on the localhost redirect and ignore other states", async () => {
+    const listener = await listenForCallback(0, "expected", 5000);
+    const response = await fetch(`${listener.redirectUri}?code=abc&state=expected`);
+    expect(response.status).toBe(200);
+    await expect(listener.code).resolves.toBe("abc");
+
+    // A stray request with another state is refused without ending the login
+    const forged = await listenForCallback(0, "expected", 5000);
+    expect((await fetch(`${forged.redirectUri}?code=abc&state=other`)).status).toBe(400);
+    expect((await fetch(`${forged.redirectUri}?code=abc`)).status).toBe(400);
+    expect((await fetch(`${forged.redirectUri}?code=def&state=expected`)).status).toBe(200);
+    await expect(forged.code).resolves.toBe("def");
+
+    const denied = await listenForCallback(0, "expected", 5000);
+    const failed = expect(denied.code).rejects.toThrow("Authorization failed: user denied");
+    await fetch(`${denied.redirectUri}?error=access_denied&error_description=user%20denied&state=expected`);
+    await failed;
+  });
+
+  test("should exchange the code for a token", async () => {
+    const mockFetch = jest.fn() as jest.MockedFunction<typeof fetch>;
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ access_token: "tok(en)" }),
+      } as Response)
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: "Bad Request",
+        json: () => Promise.resolve({ error: { type: "invalid_request", message: "code expired" } }),
+      } as Response);
+    global.fetch = mockFetch;
+
+    const options = { clientId: "1", clientSecret: "s", code: "c", redirectUri: "http://localhost/callback" };
+    await expect(exchangeCode(options)).resolves.toEqual({ accessToken: "tok(en)" });
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("https://stackoverflow.com/oauth/access_token/json");
+    expect(init?.method).toBe("POST");
+    expect(new URLSearchParams(init?.body as string).get("client_secret")).toBe("s");
+
+    await expect(exchangeCode(options)).rejects.toThrow(
+      "Failed to obtain an access token: code expired"
+    );
+  });
+
+  test("should store credentials readable only by the owner", async () => {
+    saveCredentials(path, { accessToken: "t", apiKey: "k", scope: ["write_access"], createdAt: 1 });
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+    expect(loadCredentials(path)).toMatchObject({ accessToken: "t", apiKey: "k" });
+
+    saveCredentials(path, { accessToken: "t", scope: [], createdAt: 1, expiresAt: Date.now() - 1 });
+    expect(loadCredentials(path)).toBeUndefined();
+
+    deleteCredentials(path);
+    expect(loadCredentials(path)).toBeUndefined();
+  });
+
+  test("should use stored credentials when the env vars are absent", () => {
+    process.env.STACKOVERFLOW_CREDENTIALS = path;
+    saveCredentials(path, { accessToken: "stored", apiKey: "stored-key", scope: [], createdAt: 1 });
+
+    expect(resolveAuth(process.env)).toEqual({ apiKey: "stored-key", accessToken: "stored" });
+    const server = new StackOverflowServer() as any;
+    expect(server.accessToken).toBe("stored");
+    expect(server.apiKey).toBe("stored-key");
+
+    process.env.STACKOVERFLOW_ACCESS_TOKEN = "env";
+    expect(resolveAuth(process.env)).toEqual({ apiKey: "stored-key", accessToken: "env" });
+  });
+});
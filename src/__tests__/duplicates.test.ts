@@ -0,0 +1,129 @@
+import { StackOverflowServer } from "../index.js";
+import { duplicateThresholdFromEnv, scoreDuplicates } from "../duplicates/index.js";
+import { seedAccount } from "./helpers/account.js";
+import { jest, describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Store the original fetch
+const originalFetch = global.fetch;
+
+// Create a custom fetch function type
+// @ts-ignore
+type FetchFunc = typeof global.fetch;
+
+const question = (id: number, title: string, body = "<p>Body</p>") => ({
+  question_id: id,
+  title,
+  body,
+  score: 5,
+  answer_count: 1,
+  is_answered: true,
+  creation_date: 1615000000,
+  tags: ["node.js"],
+  link: `https://stackoverflow.com/q/${id}`,
+});
+
+// Same error, worded differently: only /similar finds it
+const duplicate = question(
+  101,
+  "Webpack watch mode crashes: system limit for number of file watchers reached",
+  "<p>Error: ENOSPC: System limit for number of file watchers reached, watch '/app/src'</p>"
+);
+// Shares the error code only
+const related = question(102, "ENOSPC no space left on device when running npm install");
+
+const input = {
+  title: "Why does webpack watch fail with ENOSPC file watchers limit?",
+  body: "Details",
+  tags: ["node.js", "webpack"],
+  errorSignature: "Error: ENOSPC: System limit for number of file watchers reached",
+  triedApproaches: ["a", "b", "c"],
+  dryRun: true,
+};
+
+describe("Duplicate Detection", () => {
+  let mockFetch: jest.MockedFunction<FetchFunc>;
+  let auditDir: string;
+  let similar: object[];
+
+  beforeEach(async () => {
+    auditDir = await mkdtemp(join(tmpdir(), "so-audit-"));
+    process.env.STACKOVERFLOW_AUDIT_LOG = join(auditDir, "audit.jsonl");
+    similar = [];
+    mockFetch = jest.fn() as jest.MockedFunction<FetchFunc>;
+    mockFetch.mockImplementation((input) => {
+      const path = new URL(input as string).pathname;
+      const items =
+        path === "/2.3/similar" ? similar : path === "/2.3/search/advanced" ? [related] : [];
+      return Promise.resolve({ ok: true, json: () => Promise.resolve({ items }) } as Response);
+    });
+    global.fetch = mockFetch;
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    delete process.env.STACKOVERFLOW_AUDIT_LOG;
+    delete process.env.STACKOVERFLOW_DUPLICATE_THRESHOLD;
+    await rm(auditDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  const writeServer = () => {
+    const server = new StackOverflowServer() as any;
+    server.apiKey = "key";
+    server.accessToken = "token";
+    seedAccount(server);
+    return server;
+  };
+
+  test("should score candidates by title and error signature similarity", () => {
+    const scored = scoreDuplicates(input.title, input.errorSignature, [related, duplicate, related]);
+
+    expect(scored.map((candidate) => candidate.questionId)).toEqual([101, 102]);
+    expect(scored[0].signatureScore).toBeGreaterThan(0.8); // ENOSPC is only in the body
+    expect(scored[0].score).toBeGreaterThanOrEqual(0.6);
+    expect(scored[1].score).toBeLessThan(0.6);
+    expect(scored[1]).toMatchObject({
+      title: related.title,
+      link: "https://stackoverflow.com/q/102",
+    });
+  });
+
+  test("should read the threshold from STACKOVERFLOW_DUPLICATE_THRESHOLD", () => {
+    expect(duplicateThresholdFromEnv({})).toBe(0.6);
+    expect(duplicateThresholdFromEnv({ STACKOVERFLOW_DUPLICATE_THRESHOLD: "0.8" })).toBe(0.8);
+    expect(() => duplicateThresholdFromEnv({ STACKOVERFLOW_DUPLICATE_THRESHOLD: "80" })).toThrow(
+      "Invalid STACKOVERFLOW_DUPLICATE_THRESHOLD 80"
+    );
+  });
+
+  test("should not refuse on loosely related hits and list them in the preview", async () => {
+    const result = await writeServer().handlePostQuestion(input);
+
+    const preview = JSON.parse(result.content[0].text);
+    expect(preview.dryRun).toBe(true);
+    expect(preview.duplicateCandidates).toEqual([
+      expect.objectContaining({ questionId: 102, link: "https://stackoverflow.com/q/102" }),
+    ]);
+
+    const similarCall = mockFetch.mock.calls
+      .map(([url]) => new URL(url as string))
+      .find((url) => url.pathname === "/2.3/similar");
+    expect(similarCall?.searchParams.get("title")).toBe(input.title);
+    expect(similarCall?.searchParams.get("tagged")).toBe("node.js;webpack");
+  });
+
+  test("should refuse likely duplicates and list them with scores and links", async () => {
+    similar = [duplicate];
+
+    await expect(writeServer().handlePostQuestion(input)).rejects.toThrow(
+      /likely duplicates exist \(similarity >= 0\.6\)\. Check these first:\n- 0\.\d+ Webpack watch mode crashes: .* \(https:\/\/stackoverflow\.com\/q\/101\)$/
+    );
+
+    process.env.STACKOVERFLOW_DUPLICATE_THRESHOLD = "0.95";
+    const result = await writeServer().handlePostQuestion(input);
+    expect(JSON.parse(result.content[0].text).duplicateCandidates[0].questionId).toBe(101);
+  });
+});
@@ -0,0 +1,17 @@
+import type { AccountInfo } from "../../types/index.js";
+
+// Account with every write privilege
+export const account: AccountInfo = {
+  site: "stackoverflow",
+  user: { user_id: 1, display_name: "dev", reputation: 1000 },
+  privileges: ["create posts", "vote up", "vote down", "flag posts", "comment everywhere"].map(
+    (short_description) => ({ short_description, description: short_description, reputation: 1 })
+  ),
+};
+
+/**
+ * Caches `account` on the server so the write preflight makes no /me requests
+ */
+export function seedAccount(server: any): void {
+  server.accounts.set("stackoverflow", { account, expiresAt: Infinity });
+}
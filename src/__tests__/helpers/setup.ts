@@ -0,0 +1,11 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Keep tests off the developer's saved login and shell tokens
+process.env.STACKOVERFLOW_CREDENTIALS = join(
+  tmpdir(),
+  `so-no-credentials-${process.pid}`,
+  "credentials.json"
+);
+delete process.env.STACKOVERFLOW_API_KEY;
+delete process.env.STACKOVERFLOW_ACCESS_TOKEN;
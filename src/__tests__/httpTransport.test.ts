@@ -0,0 +1,116 @@
+import { StackOverflowServer } from "../index.js";
+import { closeHttpTransport, startHttpTransport, isAuthorized } from "../http/index.js";
+import { describe, test, expect, afterEach } from "@jest/globals";
+import { request, IncomingMessage } from "node:http";
+import type { Server as HttpServer, IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+
+// Issue a request against the test server and resolve with the status and first chunk of body
+function get(
+  port: number,
+  path: string,
+  headers: IncomingHttpHeaders = {}
+): Promise<{ status?: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      { host: "127.0.0.1", port, path, method: "GET", headers },
+      (res) => {
+        res.setEncoding("utf8");
+        res.once("data", (chunk: string) => {
+          resolve({ status: res.statusCode, body: chunk });
+          res.destroy();
+        });
+      }
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+describe("HTTP Transport", () => {
+  let httpServer: HttpServer | undefined;
+
+  afterEach(async () => {
+    if (httpServer) {
+      httpServer.closeAllConnections();
+      await new Promise((resolve) => httpServer?.close(resolve));
+      httpServer = undefined;
+    }
+  });
+
+  const start = async (authToken?: string) => {
+    const server = new StackOverflowServer();
+    httpServer = await startHttpTransport(() => (server as any).createServer(), {
+      host: "127.0.0.1",
+      port: 0,
+      authToken,
+    });
+    return (httpServer.address() as AddressInfo).port;
+  };
+
+  test("should check bearer tokens", () => {
+    const req = { headers: { authorization: "Bearer secret" } } as IncomingMessage;
+
+    expect(isAuthorized(req, "secret")).toBe(true);
+    expect(isAuthorized(req, "other")).toBe(false);
+    expect(isAuthorized({ headers: {} } as IncomingMessage, "secret")).toBe(false);
+    expect(isAuthorized({ headers: {} } as IncomingMessage, undefined)).toBe(true);
+  });
+
+  test("should reject requests without a valid token", async () => {
+    const port = await start("secret");
+
+    const response = await get(port, "/sse");
+    expect(response.status).toBe(401);
+  });
+
+  test("should open an SSE session and announce the message endpoint", async () => {
+    const port = await start("secret");
+
+    const response = await get(port, "/sse", { authorization: "Bearer secret" });
+    expect(response.status).toBe(200);
+    expect(response.body).toContain("event: endpoint");
+    expect(response.body).toContain("/messages?sessionId=");
+  });
+
+  test("should drop sessions whose client disconnected", async () => {
+    const port = await start();
+
+    await get(port, "/sse");
+    await get(port, "/sse");
+
+    let health = JSON.parse((await get(port, "/health")).body);
+    for (let i = 0; i < 50 && health.sessions > 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      health = JSON.parse((await get(port, "/health")).body);
+    }
+    expect(health.sessions).toBe(0);
+  });
+
+  test("should close open SSE streams on shutdown", async () => {
+    const port = await start();
+    const ended = new Promise<void>((resolve) => {
+      request({ host: "127.0.0.1", port, path: "/sse", method: "GET" }, (res) => {
+        res.resume();
+        res.on("end", resolve);
+      }).end();
+    });
+    while (JSON.parse((await get(port, "/health")).body).sessions === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    await closeHttpTransport(httpServer as HttpServer);
+    httpServer = undefined;
+    await ended;
+  });
+
+  test("should refuse to bind a public host without a token", async () => {
+    const server = new StackOverflowServer();
+    await expect(
+      startHttpTransport(() => (server as any).createServer(), {
+        host: "0.0.0.0",
+        port: 0,
+      })
+    ).rejects.toThrow("STACKOVERFLOW_MCP_AUTH_TOKEN");
+  });
+});
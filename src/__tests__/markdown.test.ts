@@ -0,0 +1,62 @@
+import { htmlToMarkdown, htmlToText, convertBody, decodeHtmlEntities } from "../markdown/index.js";
+import { describe, test, expect } from "@jest/globals";
+
+describe("HTML to Markdown", () => {
+  test("should convert paragraphs, entities and inline formatting", () => {
+    const html =
+      "<p>Use <code>a &lt; b</code> with <strong>care</strong> and <em>style</em>.</p>\n\n<p>See <a href=\"https://example.com\">the docs</a>.</p>";
+
+    expect(htmlToMarkdown(html)).toBe(
+      "Use `a < b` with **care** and *style*.\n\nSee [the docs](https://example.com)."
+    );
+  });
+
+  test("should leave out-of-range numeric entities as written", () => {
+    expect(decodeHtmlEntities("&#x1F600; &#128512; &#x110000; &#99999999999;")).toBe(
+      "😀 😀 &#x110000; &#99999999999;"
+    );
+    expect(htmlToMarkdown("<p>bad &#1114112; entity</p>")).toBe("bad &#1114112; entity");
+  });
+
+  test("should fence code blocks with language hints", () => {
+    const html =
+      '<pre class="lang-js s-code-block"><code class="hljs language-javascript">const a = 1;\nif (a &gt; 0) {\n  console.log(a);\n}\n</code></pre>';
+
+    expect(htmlToMarkdown(html)).toBe(
+      "```js\nconst a = 1;\nif (a > 0) {\n  console.log(a);\n}\n```"
+    );
+  });
+
+  test("should fall back to the language- class on code", () => {
+    const html = '<pre><code class="language-python">print("hi")</code></pre>';
+
+    expect(htmlToMarkdown(html)).toBe('```python\nprint("hi")\n```');
+  });
+
+  test("should convert nested lists and blockquotes", () => {
+    const html =
+      "<ol><li>First<ul><li>Nested</li></ul></li><li>Second</li></ol><blockquote><p>Quoted</p><p>Twice</p></blockquote>";
+
+    expect(htmlToMarkdown(html)).toBe(
+      "1. First\n\n   - Nested\n2. Second\n\n> Quoted\n>\n> Twice"
+    );
+  });
+
+  test("should convert tables", () => {
+    const html =
+      "<table><thead><tr><th>Name</th><th>Value</th></tr></thead><tbody><tr><td>a</td><td>1</td></tr></tbody></table>";
+
+    expect(htmlToMarkdown(html)).toBe("| Name | Value |\n| --- | --- |\n| a | 1 |");
+  });
+
+  test("should render plain text", () => {
+    const html = '<p>Run <code>npm ci</code>, see <a href="https://docs.npmjs.com">docs</a>.</p>';
+
+    expect(htmlToText(html)).toBe("Run npm ci, see docs (https://docs.npmjs.com).");
+  });
+
+  test("should leave html untouched by default", () => {
+    expect(convertBody("<p>x</p>")).toBe("<p>x</p>");
+    expect(convertBody("<p>x</p>", "markdown")).toBe("x");
+  });
+});
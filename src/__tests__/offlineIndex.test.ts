@@ -0,0 +1,139 @@
+import { StackOverflowServer } from "../index.js";
+import { importDump, OfflineIndex, parseRow } from "../offline/index.js";
+import {
+  jest,
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from "@jest/globals";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Store the original fetch
+const originalFetch = global.fetch;
+
+// A tiny data dump in the public dump format: one <row /> per line
+const POSTS_XML = `<?xml version="1.0" encoding="utf-8"?>
+<posts>
+  <row Id="1" PostTypeId="1" AcceptedAnswerId="3" CreationDate="2020-01-01T00:00:00.000" Score="42" Body="&lt;p&gt;Running npm install fails with EACCES permission denied&lt;/p&gt;" Title="npm install EACCES permission denied" Tags="&lt;node.js&gt;&lt;npm&gt;" AnswerCount="2" />
+  <row Id="2" PostTypeId="1" CreationDate="2021-01-01T00:00:00.000" Score="7" Body="&lt;p&gt;Python raises KeyError when reading a dict&lt;/p&gt;" Title="KeyError on dict lookup" Tags="|python|dictionary|" AnswerCount="0" />
+  <row Id="3" PostTypeId="2" ParentId="1" CreationDate="2020-01-02T00:00:00.000" Score="30" Body="&lt;p&gt;Fix the npm prefix&lt;/p&gt;" />
+  <row Id="4" PostTypeId="2" ParentId="1" CreationDate="2020-01-03T00:00:00.000" Score="50" Body="&lt;p&gt;Use nvm&lt;/p&gt;" />
+</posts>`;
+
+const COMMENTS_XML = `<?xml version="1.0" encoding="utf-8"?>
+<comments>
+  <row Id="10" PostId="1" Score="2" Text="Which OS?" CreationDate="2020-01-01T01:00:00.000" />
+</comments>`;
+
+const TAGS_XML = `<?xml version="1.0" encoding="utf-8"?>
+<tags>
+  <row Id="1" TagName="npm" Count="1" />
+</tags>`;
+
+describe("Offline Index", () => {
+  let dir: string;
+  let indexPath: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "so-dump-"));
+    indexPath = join(dir, "index", "offline-index.json");
+    await writeFile(join(dir, "Posts.xml"), POSTS_XML);
+    await writeFile(join(dir, "Comments.xml"), COMMENTS_XML);
+    await writeFile(join(dir, "Tags.xml"), TAGS_XML);
+    await importDump(dir, indexPath, "stackoverflow");
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    delete process.env.STACKOVERFLOW_BACKEND;
+    delete process.env.STACKOVERFLOW_OFFLINE_INDEX;
+  });
+
+  test("should parse dump rows and decode entities", () => {
+    const row = parseRow(`  <row Id="5" Body="&lt;p&gt;a &amp;amp; b&#xA;&lt;/p&gt;" />`);
+    expect(row).toEqual({ Id: "5", Body: "<p>a &amp; b\n</p>" });
+    expect(parseRow("<posts>")).toBeUndefined();
+  });
+
+  test("should refuse dumps over the size cap before parsing them", async () => {
+    const target = join(dir, "too-large", "offline-index.json");
+
+    await expect(
+      importDump(dir, target, "stackoverflow", { maxDumpBytes: 100 })
+    ).rejects.toThrow(/\(Posts\.xml and Comments\.xml\); the offline index supports dumps up to 1 MiB/);
+    await expect(OfflineIndex.load(target)).rejects.toThrow("ENOENT");
+  });
+
+  test("should search imported questions with the SearchResult shape", async () => {
+    const index = await OfflineIndex.load(indexPath);
+
+    const results = index.search("EACCES permission denied", { includeComments: true });
+
+    expect(results[0].question.question_id).toBe(1);
+    expect(results[0].question.tags).toEqual(["node.js", "npm"]);
+    expect(results[0].question.link).toBe("https://stackoverflow.com/questions/1");
+    // Answers are in vote order with the accepted one marked
+    expect(results[0].answers.map((a) => a.answer_id)).toEqual([4, 3]);
+    expect(results[0].answers[1].is_accepted).toBe(true);
+    expect(results[0].comments?.question[0].body).toBe("Which OS?");
+  });
+
+  test("should filter by tags", async () => {
+    const index = await OfflineIndex.load(indexPath);
+
+    expect(index.searchByTags(["python"]).map((r) => r.question.question_id)).toEqual([2]);
+    expect(index.search("KeyError", { tags: ["npm"] })).toHaveLength(0);
+  });
+
+  test("should answer tool calls offline when configured", async () => {
+    process.env.STACKOVERFLOW_BACKEND = "offline";
+    process.env.STACKOVERFLOW_OFFLINE_INDEX = indexPath;
+    const mockFetch = jest.fn();
+    global.fetch = mockFetch as any;
+    const server = new StackOverflowServer();
+
+    const results = await (server as any).searchStackOverflow("npm permission", ["npm"]);
+
+    expect(results[0].question.question_id).toBe(1);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  test("should fall back to the offline index when the API fails", async () => {
+    process.env.STACKOVERFLOW_BACKEND = "fallback";
+    process.env.STACKOVERFLOW_OFFLINE_INDEX = indexPath;
+    global.fetch = jest.fn(() => Promise.reject(new Error("getaddrinfo ENOTFOUND"))) as any;
+    const server = new StackOverflowServer();
+
+    const question = await (server as any).fetchQuestion(2);
+
+    expect(question.title).toBe("KeyError on dict lookup");
+  });
+
+  test("should reject unknown backends", () => {
+    process.env.STACKOVERFLOW_BACKEND = "ofline";
+
+    expect(() => new StackOverflowServer()).toThrow("Unknown STACKOVERFLOW_BACKEND: ofline");
+  });
+
+  test("should refuse sites other than the imported one", async () => {
+    process.env.STACKOVERFLOW_BACKEND = "offline";
+    process.env.STACKOVERFLOW_OFFLINE_INDEX = indexPath;
+    const server = new StackOverflowServer();
+
+    await expect(
+      (server as any).searchStackOverflow("npm permission", ["npm"], { site: "serverfault" })
+    ).rejects.toThrow(`The offline index at ${indexPath} holds stackoverflow, not serverfault`);
+    await expect((server as any).fetchQuestion(1, { site: "serverfault" })).rejects.toThrow(
+      "holds stackoverflow, not serverfault"
+    );
+  });
+});
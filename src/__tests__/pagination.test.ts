@@ -0,0 +1,168 @@
+import { StackOverflowServer } from "../index.js";
+import { decodeCursor, encodeCursor, resolveLimit } from "../pagination/index.js";
+import { jest, describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+
+// Store the original fetch
+const originalFetch = global.fetch;
+
+// Create a custom fetch function type
+// @ts-ignore
+type FetchFunc = typeof global.fetch;
+
+const question = (id: number) => ({
+  question_id: id,
+  title: `Question ${id}`,
+  body: "<p>Body</p>",
+  score: 1000 - id,
+  answer_count: 0,
+  is_answered: false,
+  creation_date: 1615000000,
+  tags: ["node.js"],
+  link: `https://stackoverflow.com/q/${id}`,
+});
+
+describe("Pagination", () => {
+  let mockFetch: jest.MockedFunction<FetchFunc>;
+  const TOTAL = 450;
+
+  beforeEach(() => {
+    // A listing of TOTAL questions served page by page
+    mockFetch = jest.fn() as jest.MockedFunction<FetchFunc>;
+    mockFetch.mockImplementation((input) => {
+      const url = new URL(input as string);
+      const params = url.searchParams;
+      let body: object = { items: [] };
+      if (url.pathname === "/2.3/questions" || url.pathname === "/2.3/search/advanced") {
+        if (params.get("filter") === "total") {
+          body = { total: TOTAL };
+        } else {
+          const pageSize = Number(params.get("pagesize"));
+          const start = (Number(params.get("page")) - 1) * pageSize;
+          const end = Math.min(start + pageSize, TOTAL);
+          body = {
+            items: Array.from({ length: Math.max(end - start, 0) }, (_, i) => question(start + i + 1)),
+            has_more: end < TOTAL,
+          };
+        }
+      }
+      return Promise.resolve({ ok: true, json: () => Promise.resolve(body) } as Response);
+    });
+    global.fetch = mockFetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.clearAllMocks();
+  });
+
+  const listingCalls = () =>
+    mockFetch.mock.calls
+      .map(([input]) => new URL(input as string))
+      .filter((url) => url.pathname === "/2.3/questions" || url.pathname === "/2.3/search/advanced");
+
+  test("should validate limits and clamp them to 100", () => {
+    expect(resolveLimit(undefined)).toBeUndefined();
+    expect(resolveLimit(30)).toBe(30);
+    expect(resolveLimit(150)).toBe(100);
+    for (const limit of [0, -5, 2.5, NaN]) {
+      expect(() => resolveLimit(limit)).toThrow("limit must be a positive integer");
+    }
+
+    const cursor = encodeCursor({ page: 2, pageSize: 30, tier: "normalized" });
+    expect(decodeCursor(cursor)).toEqual({ page: 2, pageSize: 30, tier: "normalized" });
+    expect(() => decodeCursor("not a cursor")).toThrow("Invalid cursor");
+    expect(() => decodeCursor(encodeCursor({ page: 0, pageSize: 10 }))).toThrow("Invalid cursor");
+  });
+
+  test("should reject invalid limits before fetching", async () => {
+    const server = new StackOverflowServer() as any;
+
+    await expect(server.handleSearchByTags({ tags: ["node.js"], limit: 0 })).rejects.toThrow(
+      "limit must be a positive integer"
+    );
+    await expect(
+      server.handleSearchByError({
+        errorMessage: "TypeError: x is undefined",
+        language: "javascript",
+        limit: -1,
+      })
+    ).rejects.toThrow("limit must be a positive integer");
+    await expect(
+      server.handleAnalyzeStackTrace({
+        stackTrace: "Error: boom",
+        language: "javascript",
+        limit: 2.5,
+      })
+    ).rejects.toThrow("limit must be a positive integer");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  test("should clamp large limits to one API page and follow the cursor", async () => {
+    const server = new StackOverflowServer() as any;
+
+    const first = await server.handleSearchByTags({ tags: ["node.js"], limit: 150 });
+    const results = JSON.parse(first.content[0].text);
+    const { pagination } = JSON.parse(first.content[1].text);
+    expect(results).toHaveLength(100);
+    expect(results[99].question.question_id).toBe(100);
+    expect(pagination).toMatchObject({ page: 1, hasMore: true, total: TOTAL });
+    expect(
+      listingCalls().map((url) => [url.searchParams.get("page"), url.searchParams.get("pagesize")])
+    ).toEqual([
+      ["1", "100"],
+      [null, null], // total
+    ]);
+
+    mockFetch.mockClear();
+    const second = await server.handleSearchByTags({
+      tags: ["node.js"],
+      cursor: pagination.nextCursor,
+    });
+    const next = JSON.parse(second.content[0].text);
+    expect(next.map((result: any) => result.question.question_id).slice(0, 2)).toEqual([101, 102]);
+    expect(next).toHaveLength(100);
+    // The total comes from the response cache
+    expect(listingCalls().map((url) => url.searchParams.get("page"))).toEqual(["2"]);
+  });
+
+  test("should work out the total on the last page without an extra request", async () => {
+    const server = new StackOverflowServer() as any;
+
+    const result = await server.handleSearchByTags({ tags: ["node.js"], limit: 100, page: 5 });
+    expect(JSON.parse(result.content[0].text)).toHaveLength(50);
+    expect(JSON.parse(result.content[1].text).pagination).toEqual({
+      page: 5,
+      hasMore: false,
+      total: TOTAL,
+    });
+    expect(listingCalls()).toHaveLength(1);
+
+    const markdown = await server.handleSearchByTags({
+      tags: ["node.js"],
+      limit: 10,
+      responseFormat: "markdown",
+    });
+    expect(markdown.content[1].text).toMatch(/^\*\*Page:\*\* 1 \(450 total\) \| \*\*Next cursor:\*\* `[\w-]+`$/);
+  });
+
+  test("should keep paging the query tier that matched first", async () => {
+    const server = new StackOverflowServer() as any;
+    const input = {
+      errorMessage: "TypeError: Cannot read properties of undefined (reading 'map')",
+      language: "javascript",
+      limit: 10,
+    };
+
+    const first = JSON.parse((await server.handleSearchByError(input)).content[1].text);
+    expect(first.match.tier).toBe("exact");
+    expect(first.pagination).toMatchObject({ page: 1, hasMore: true, total: TOTAL });
+
+    mockFetch.mockClear();
+    const second = await server.handleSearchByError({ ...input, cursor: first.pagination.nextCursor });
+    const meta = JSON.parse(second.content[1].text);
+    expect(meta.match).toMatchObject({ tier: "exact", tried: ["exact"] });
+    expect(meta.pagination.page).toBe(2);
+    expect(JSON.parse(second.content[0].text)[0].question.question_id).toBe(11);
+    expect(listingCalls()[0].searchParams.get("q")).toBe(first.match.query);
+  });
+});
@@ -0,0 +1,155 @@
+import { StackOverflowServer } from "../index.js";
+import { missingPrivilege } from "../privileges/index.js";
+import { jest, describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Store the original fetch
+const originalFetch = global.fetch;
+
+// Create a custom fetch function type
+// @ts-ignore
+type FetchFunc = typeof global.fetch;
+
+const privileges = (...names: string[]) =>
+  names.map((short_description) => ({ short_description, description: short_description, reputation: 1 }));
+
+const newUser = { user_id: 7, display_name: "newbie", reputation: 11, user_type: "registered" };
+
+const question = (ownerId: number) => ({
+  question_id: 12345,
+  title: "Build fails",
+  body: "<p>Question body</p>",
+  score: 1,
+  answer_count: 0,
+  is_answered: false,
+  creation_date: 1615000000,
+  tags: ["node.js"],
+  link: "https://stackoverflow.com/q/12345",
+  owner: { user_id: ownerId, display_name: "asker" },
+});
+
+describe("Write Privileges", () => {
+  let mockFetch: jest.MockedFunction<FetchFunc>;
+  let auditDir: string;
+  let users: object[];
+  let ownerId: number;
+
+  beforeEach(async () => {
+    auditDir = await mkdtemp(join(tmpdir(), "so-audit-"));
+    process.env.STACKOVERFLOW_AUDIT_LOG = join(auditDir, "audit.jsonl");
+    users = [newUser];
+    ownerId = 99;
+    mockFetch = jest.fn() as jest.MockedFunction<FetchFunc>;
+    mockFetch.mockImplementation((input) => {
+      const path = new URL(input as string).pathname;
+      const items =
+        path === "/2.3/me"
+          ? users
+          : path === "/2.3/me/privileges"
+            ? privileges("create posts", "flag posts")
+            : path.startsWith("/2.3/access-tokens/")
+              ? [{ access_token: "token", scope: ["write_access", "no_expiry"], account_id: 3 }]
+              : path.startsWith("/2.3/questions/12345")
+                ? [question(ownerId)]
+                : [];
+      return Promise.resolve({ ok: true, json: () => Promise.resolve({ items }) } as Response);
+    });
+    global.fetch = mockFetch;
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    delete process.env.STACKOVERFLOW_AUDIT_LOG;
+    await rm(auditDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  const writeServer = () => {
+    const server = new StackOverflowServer() as any;
+    server.apiKey = "key";
+    server.accessToken = "token";
+    return server;
+  };
+
+  const paths = () => mockFetch.mock.calls.map(([input]) => new URL(input as string).pathname);
+
+  test("should explain which privilege a tool is missing", () => {
+    const account = { site: "stackoverflow", user: newUser, privileges: privileges("create posts") };
+
+    expect(missingPrivilege("post_question", account)).toBeUndefined();
+    expect(missingPrivilege("thumbs_up", account)).toBe(
+      'thumbs_up needs the "vote up" privilege on stackoverflow (15 reputation); newbie has 11 reputation there'
+    );
+    expect(missingPrivilege("downvote", { ...account, site: "serverfault" })).toBe(
+      'downvote needs the "vote down" privilege on serverfault (125 reputation); newbie has 11 reputation there'
+    );
+    expect(missingPrivilege("comment_solution", account)).toContain("not needed on your own posts");
+    expect(missingPrivilege("comment_solution", account, { ownPost: true })).toBeUndefined();
+  });
+
+  test("should refuse an upvote before anything else and cache the account", async () => {
+    const server = writeServer();
+
+    for (let i = 0; i < 2; i++) {
+      await expect(
+        server.handleThumbsUp({ postId: 5, confirmedFixed: true, dryRun: true })
+      ).rejects.toThrow('Insufficient privileges: thumbs_up needs the "vote up" privilege');
+    }
+    expect(paths()).toEqual(["/2.3/me", "/2.3/me/privileges"]);
+  });
+
+  test("should let new users comment on their own question only", async () => {
+    const input = { questionId: 12345, body: "Which OS?", dryRun: true };
+
+    await expect(writeServer().handleCommentSolution(input)).rejects.toThrow(
+      'comment_solution needs the "comment everywhere" privilege'
+    );
+
+    ownerId = newUser.user_id;
+    const preview = JSON.parse((await writeServer().handleCommentSolution(input)).content[0].text);
+    expect(preview.dryRun).toBe(true);
+  });
+
+  test("should refuse when the token has no account on the site", async () => {
+    users = [];
+
+    await expect(
+      writeServer().handlePostQuestion({
+        title: "ENOSPC when watching files",
+        body: "Details",
+        tags: ["node.js"],
+        errorSignature: "ENOSPC: System limit for number of file watchers reached",
+        triedApproaches: ["a", "b", "c"],
+        site: "serverfault",
+      })
+    ).rejects.toThrow("The access token's user has no account on serverfault");
+    expect(paths()).not.toContain("/2.3/search/advanced");
+  });
+
+  test("should report the account, privileges, scopes and usable write tools", async () => {
+    const result = await writeServer().handleWhoami({});
+    const whoami = JSON.parse(result.content[0].text);
+
+    expect(whoami).toMatchObject({
+      site: "stackoverflow",
+      userId: 7,
+      displayName: "newbie",
+      reputation: 11,
+      privileges: ["create posts", "flag posts"],
+      scopes: ["write_access", "no_expiry"],
+      writeTools: {
+        post_question: { allowed: true },
+        post_solution: { allowed: true },
+        thumbs_up: { allowed: false },
+        comment_solution: { allowed: false },
+      },
+    });
+    expect(whoami.writeTools.thumbs_up.reason).toContain("15 reputation");
+
+    await expect((new StackOverflowServer() as any).handleWhoami({})).rejects.toThrow(
+      "Write operations require STACKOVERFLOW_API_KEY"
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { StackOverflowServer } from "../index.js";
+import { renderPrompt } from "../prompts/index.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { describe, test, expect } from "@jest/globals";
+
+describe("MCP Prompts", () => {
+  const connect = async (server: StackOverflowServer) => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: "test", version: "1.0.0" }, { capabilities: {} });
+    await Promise.all([
+      client.connect(clientTransport),
+      (server as any).createServer().connect(serverTransport),
+    ]);
+    return client;
+  };
+
+  test("should advertise the prompt templates", async () => {
+    const client = await connect(new StackOverflowServer());
+
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      "debug_error",
+      "analyze_stack_trace",
+      "draft_question",
+      "verify_and_post_solution",
+    ]);
+    const draft = prompts.find((prompt) => prompt.name === "draft_question");
+    expect(draft?.arguments?.filter((arg) => arg.required).map((arg) => arg.name)).toEqual([
+      "errorMessage",
+      "language",
+      "triedApproaches",
+    ]);
+  });
+
+  test("should render a debugging workflow", async () => {
+    const client = await connect(new StackOverflowServer());
+
+    const result = await client.getPrompt({
+      name: "debug_error",
+      arguments: { errorMessage: "TypeError: x is undefined", language: "javascript" },
+    });
+
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages[0].role).toBe("user");
+    const text = result.messages[0].content.text as string;
+    expect(text).toContain("TypeError: x is undefined");
+    expect(text).toContain('`search_by_error`');
+    expect(text).toContain('`language: "javascript"`');
+    expect(text).toContain("Do not post");
+  });
+
+  test("should list tried approaches in the question draft", () => {
+    const text = renderPrompt("draft_question", {
+      errorMessage: "ModuleNotFoundError: No module named 'foo'",
+      language: "python",
+      triedApproaches: "- pip install foo\n- recreated the venv\n\n3. checked PYTHONPATH",
+    });
+
+    expect(text).toContain("1. pip install foo\n2. recreated the venv\n3. checked PYTHONPATH");
+    expect(text).toContain("`post_question`");
+    expect(text).toContain("wait for my approval");
+  });
+
+  test("should refuse a question draft with fewer than 3 attempts", async () => {
+    const client = await connect(new StackOverflowServer());
+
+    await expect(
+      client.getPrompt({
+        name: "draft_question",
+        arguments: {
+          errorMessage: "Error",
+          language: "go",
+          triedApproaches: "restarted\nreinstalled",
+        },
+      })
+    ).rejects.toThrow("at least 3 triedApproaches");
+  });
+
+  test("should reject missing arguments and unknown prompts", () => {
+    expect(() => renderPrompt("verify_and_post_solution", { questionId: "1" })).toThrow(
+      "requires: solution, evidence"
+    );
+    expect(() => renderPrompt("nope")).toThrow("Unknown prompt: nope");
+  });
+});
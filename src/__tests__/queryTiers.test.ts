@@ -0,0 +1,107 @@
+import { StackOverflowServer } from "../index.js";
+import {
+  buildQueryTiers,
+  extractKeyTerms,
+  normalizeErrorMessage,
+  termCoverage,
+} from "../query/index.js";
+import { jest, describe, test, expect } from "@jest/globals";
+
+describe("Error Normalization and Query Tiers", () => {
+  test("should strip paths, line numbers and addresses", () => {
+    expect(
+      normalizeErrorMessage(
+        "Error: ENOENT: no such file or directory, open '/home/alice/app/config.json'"
+      )
+    ).toBe("Error: ENOENT: no such file or directory, open");
+    expect(
+      normalizeErrorMessage("Segmentation fault at 0x7ffd5e8c1a20 in worker.c:120:4")
+    ).toBe("Segmentation fault");
+    expect(
+      normalizeErrorMessage(
+        "connect ECONNREFUSED 127.0.0.1:5432 at 2024-03-01T10:22:33Z (request 6f1c2a8e-1b2c-4d3e-8f9a-0b1c2d3e4f5a)"
+      )
+    ).toBe("connect ECONNREFUSED at (request)");
+    expect(normalizeErrorMessage("Cannot find module 'C:\\Users\\bob\\app\\util' on line 42")).toBe(
+      "Cannot find module"
+    );
+  });
+
+  test("should count terms in the title fully and in the decoded body by half", () => {
+    const question = {
+      title: "npm install fails with EACCES",
+      body: "<p>Only on <code>node&#46;js</code> 20</p>",
+    };
+
+    expect(termCoverage(["eacces", "node.js", "missing"], question)).toBeCloseTo(0.5);
+    expect(termCoverage([], question)).toBe(0);
+  });
+
+  test("should keep meaningful identifiers", () => {
+    expect(normalizeErrorMessage("Cannot read properties of undefined (reading 'map')")).toBe(
+      "Cannot read properties of undefined (reading 'map')"
+    );
+  });
+
+  test("should put exception names and error codes first in the key terms", () => {
+    expect(extractKeyTerms("connect ECONNREFUSED 127.0.0.1:5432 from the TypeError handler")).toEqual([
+      "ECONNREFUSED",
+      "TypeError",
+      "connect",
+      "handler",
+    ]);
+  });
+
+  test("should build the tiers from most to least specific", () => {
+    const tiers = buildQueryTiers("Error: listen EADDRINUSE: address already in use :::3000", [
+      "node.js",
+    ]);
+
+    expect(tiers).toEqual([
+      {
+        name: "exact",
+        query: '"Error: listen EADDRINUSE: address already in use :::3000"',
+        tags: ["node.js"],
+      },
+      {
+        name: "normalized",
+        query: "Error: listen EADDRINUSE: address already in use",
+        tags: ["node.js"],
+      },
+      { name: "keywords", query: "Error EADDRINUSE listen address already use", tags: ["node.js"] },
+      { name: "keywords_untagged", query: "Error EADDRINUSE listen address already use" },
+    ]);
+  });
+
+  test("should stop at the first tier with enough results and report it", async () => {
+    const server = new StackOverflowServer();
+    const searchSpy = jest.spyOn(server as any, "searchStackOverflow");
+    searchSpy
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ question: { question_id: 1 }, answers: [] }])
+      .mockResolvedValueOnce([
+        { question: { question_id: 2 }, answers: [] },
+        { question: { question_id: 3 }, answers: [] },
+      ]);
+
+    const result = await (server as any).handleSearchByError({
+      errorMessage: "KeyError: 'user_42' in /srv/app/models.py line 88",
+      language: "python",
+      minResults: 2,
+      responseFormat: "json",
+    });
+
+    expect(searchSpy).toHaveBeenCalledTimes(3);
+    expect(searchSpy.mock.calls.map((call) => call[0])).toEqual([
+      "\"KeyError: 'user_42' in /srv/app/models.py line 88\"",
+      "KeyError",
+      "KeyError",
+    ]);
+    expect(JSON.parse(result.content[0].text)).toHaveLength(2);
+    expect(JSON.parse(result.content[1].text).match).toEqual({
+      tier: "keywords_untagged",
+      query: "KeyError",
+      tried: ["exact", "normalized", "keywords_untagged"],
+    });
+  });
+});
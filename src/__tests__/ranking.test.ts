@@ -0,0 +1,122 @@
+import { StackOverflowServer } from "../index.js";
+import { DEFAULT_RANKING_WEIGHTS, rankResults, rankingWeightsFromEnv } from "../ranking/index.js";
+import { SearchResult } from "../types/index.js";
+import { jest, describe, test, expect, afterEach } from "@jest/globals";
+
+const NOW = Date.parse("2024-06-01");
+const YEAR = 365 * 24 * 60 * 60;
+
+const result = (id: number, overrides: Record<string, any> = {}, answers: any[] = []): SearchResult => ({
+  question: {
+    question_id: id,
+    title: `Question ${id}`,
+    body: "<p>Body</p>",
+    score: 10,
+    answer_count: answers.length,
+    is_answered: answers.length > 0,
+    creation_date: NOW / 1000 - 5 * YEAR,
+    tags: ["python"],
+    link: `https://stackoverflow.com/q/${id}`,
+    ...overrides,
+  },
+  answers: answers.map((answer, i) => ({
+    answer_id: id * 10 + i,
+    question_id: id,
+    score: 0,
+    is_accepted: false,
+    body: "<p>Answer</p>",
+    creation_date: NOW / 1000 - 5 * YEAR,
+    link: `https://stackoverflow.com/a/${id * 10 + i}`,
+    ...answer,
+  })),
+});
+
+describe("Result Ranking", () => {
+  afterEach(() => {
+    delete process.env.STACKOVERFLOW_RANK_WEIGHTS;
+    jest.restoreAllMocks();
+  });
+
+  test("should score each signal between 0 and 1", () => {
+    const [ranked] = rankResults(
+      [
+        result(
+          1,
+          {
+            title: "KeyError when reading a dict in pandas",
+            tags: ["python", "pandas"],
+            accepted_answer_id: 10,
+            creation_date: NOW / 1000 - 3 * YEAR,
+          },
+          [{ score: 1000, is_accepted: true }]
+        ),
+      ],
+      { query: "KeyError: 'name' in pandas", tags: ["python", "django"] },
+      DEFAULT_RANKING_WEIGHTS,
+      NOW
+    );
+
+    expect(ranked.signals.similarity).toBeGreaterThan(0.5);
+    expect(ranked.signals.accepted).toBe(1);
+    expect(ranked.signals.answerScore).toBe(1);
+    expect(ranked.signals.recency).toBeCloseTo(0.5, 2); // one half-life old
+    expect(ranked.signals.tagOverlap).toBe(0.5);
+    expect(ranked.signals.duplicate).toBe(0);
+  });
+
+  test("should put relevant, answered questions above raw vote order", () => {
+    const results = [
+      result(1, { title: "Python is slow [duplicate]", score: 500 }),
+      result(2, { title: "What is a KeyError?", score: 200 }),
+      result(3, { title: "KeyError reading pandas column" }, [{ score: 40, is_accepted: true }]),
+    ];
+
+    const ranked = rankResults(results, { query: "KeyError pandas column", tags: ["python"] }, undefined, NOW);
+    expect(ranked.map((item) => item.result.question.question_id)).toEqual([3, 2, 1]);
+    expect(ranked[2].signals.duplicate).toBe(1);
+  });
+
+  test("should read weights from STACKOVERFLOW_RANK_WEIGHTS", () => {
+    expect(rankingWeightsFromEnv({ STACKOVERFLOW_RANK_WEIGHTS: " recency=4, duplicate=-10 " })).toEqual({
+      ...DEFAULT_RANKING_WEIGHTS,
+      recency: 4,
+      duplicate: -10,
+    });
+    expect(rankingWeightsFromEnv({})).toEqual(DEFAULT_RANKING_WEIGHTS);
+    expect(() => rankingWeightsFromEnv({ STACKOVERFLOW_RANK_WEIGHTS: "votes=2" })).toThrow(
+      "Invalid STACKOVERFLOW_RANK_WEIGHTS entry votes=2"
+    );
+    expect(() => rankingWeightsFromEnv({ STACKOVERFLOW_RANK_WEIGHTS: "recency=high" })).toThrow(
+      "Invalid STACKOVERFLOW_RANK_WEIGHTS entry"
+    );
+  });
+
+  test("should explain the ranking on request and keep an explicit sort", async () => {
+    process.env.STACKOVERFLOW_RANK_WEIGHTS = "similarity=0,accepted=0,answerScore=0,recency=0,tagOverlap=1";
+    const server = new StackOverflowServer() as any;
+    jest
+      .spyOn(server, "searchByTagsOnSite")
+      .mockResolvedValue([result(1, { tags: ["java"] }), result(2, { tags: ["python", "flask"] })]);
+
+    const response = await server.handleSearchByTags({ tags: ["python", "flask"], explain: true });
+    expect(JSON.parse(response.content[0].text).map((r: any) => r.question.question_id)).toEqual([2, 1]);
+    const { ranking } = JSON.parse(response.content[1].text);
+    expect(ranking[0]).toMatchObject({
+      rank: 1,
+      questionId: 2,
+      score: 1,
+      signals: { tagOverlap: { value: 1, weight: 1, contribution: 1 } },
+    });
+
+    const markdown = await server.handleSearchByTags({
+      tags: ["python", "flask"],
+      explain: true,
+      responseFormat: "markdown",
+    });
+    expect(markdown.content[1].text).toContain("### Ranking\n\n1. 2: 1 (tagOverlap 1×1");
+
+    const sorted = await server.handleSearchByTags({ tags: ["python", "flask"], sort: "creation" });
+    expect(JSON.parse(sorted.content[0].text).map((r: any) => r.question.question_id)).toEqual([1, 2]);
+    expect(sorted.content).toHaveLength(1);
+  });
+});
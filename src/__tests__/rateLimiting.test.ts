@@ -85,4 +85,77 @@ describe("Rate Limiting", () => {
     expect(result).toBe("success");
     expect(checkRateLimitSpy).toHaveBeenCalledTimes(2);
   });
+
+  test("should record quota and fail fast once it is exhausted", async () => {
+    const server = new StackOverflowServer();
+
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve({ items: [], quota_max: 10000, quota_remaining: 0 }),
+      } as Response)
+    );
+
+    await (server as any).apiRequest("/questions/1", new URLSearchParams());
+    expect(server.getQuota()).toMatchObject({ remaining: 0, max: 10000 });
+
+    await expect(
+      (server as any).apiRequest("/questions/2", new URLSearchParams())
+    ).rejects.toThrow("daily API quota exhausted");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("should honor backoff per API method", async () => {
+    const server = new StackOverflowServer();
+
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ items: [], backoff: 10 }),
+      } as Response)
+    );
+
+    await (server as any).apiRequest(
+      "/questions/1;2/answers",
+      new URLSearchParams()
+    );
+
+    const backoffUntil = (server as any).backoffUntil as Map<string, number>;
+    expect(backoffUntil.get("/questions/{ids}/answers")).toBeGreaterThan(Date.now());
+
+    // The next call to the same method waits for the backoff to expire
+    const promise = (server as any).apiRequest(
+      "/questions/3/answers",
+      new URLSearchParams()
+    );
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(5000);
+    await promise;
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  test("should fail fast on long throttle violations", async () => {
+    const server = new StackOverflowServer();
+
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: false,
+        status: 400,
+        json: () =>
+          Promise.resolve({
+            error_id: 502,
+            error_name: "throttle_violation",
+            error_message:
+              "too many requests from this IP, more requests available in 3600 seconds",
+          }),
+      } as Response)
+    );
+
+    await expect(
+      (server as any).apiRequest("/search/advanced", new URLSearchParams())
+    ).rejects.toThrow("retry in 3600 seconds");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
 });
@@ -0,0 +1,169 @@
+import { StackOverflowServer } from "../index.js";
+import { parseResourceUri, resourceUri } from "../resources/index.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  jest,
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
+
+// Store the original fetch
+const originalFetch = global.fetch;
+
+// Create a custom fetch function type
+// @ts-ignore
+type FetchFunc = typeof global.fetch;
+
+const question = {
+  question_id: 12345,
+  title: "Why does &quot;npm ci&quot; fail?",
+  body: "<p>Question body</p>",
+  score: 10,
+  answer_count: 2,
+  is_answered: true,
+  accepted_answer_id: 67891,
+  creation_date: 1615000000,
+  tags: ["npm"],
+  link: "https://stackoverflow.com/q/12345",
+};
+
+const answers = [
+  {
+    answer_id: 67890,
+    question_id: 12345,
+    score: 50,
+    is_accepted: false,
+    body: "<p>Popular answer</p>",
+    creation_date: 1615100000,
+    link: "https://stackoverflow.com/a/67890",
+  },
+  {
+    answer_id: 67891,
+    question_id: 12345,
+    score: 5,
+    is_accepted: true,
+    body: "<p>Accepted answer</p>",
+    creation_date: 1615200000,
+    link: "https://stackoverflow.com/a/67891",
+  },
+];
+
+// Route mocked API calls by path
+function mockApi(path: string) {
+  if (path.startsWith("/2.3/questions/12345/answers")) return { items: answers };
+  if (path.startsWith("/2.3/questions/12345")) return { items: [question] };
+  if (path.startsWith("/2.3/answers/67890")) return { items: [answers[0]] };
+  if (path.includes("/comments")) return { items: [] };
+  return { items: [] };
+}
+
+describe("MCP Resources", () => {
+  let mockFetch: jest.MockedFunction<FetchFunc>;
+
+  beforeEach(() => {
+    mockFetch = jest.fn() as jest.MockedFunction<FetchFunc>;
+    mockFetch.mockImplementation((input) =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(mockApi(new URL(input as string).pathname)),
+      } as Response)
+    );
+    global.fetch = mockFetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.clearAllMocks();
+  });
+
+  const connect = async (server: StackOverflowServer) => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: "test", version: "1.0.0" }, { capabilities: {} });
+    await Promise.all([
+      client.connect(clientTransport),
+      (server as any).createServer().connect(serverTransport),
+    ]);
+    return client;
+  };
+
+  test("should parse and build resource URIs", () => {
+    expect(parseResourceUri("stackoverflow://questions/42")).toEqual({
+      kind: "question",
+      id: 42,
+      site: undefined,
+    });
+    expect(parseResourceUri("stackoverflow://answers/7?site=serverfault")).toEqual({
+      kind: "answer",
+      id: 7,
+      site: "serverfault",
+    });
+    expect(parseResourceUri("stackoverflow://tags/c%23/faq")).toEqual({
+      kind: "tagFaq",
+      tag: "c#",
+      site: undefined,
+    });
+    expect(parseResourceUri("stackoverflow://questions/abc")).toBeUndefined();
+    expect(resourceUri({ kind: "tagFaq", tag: "c#", site: "stackoverflow" }, "stackoverflow")).toBe(
+      "stackoverflow://tags/c%23/faq"
+    );
+  });
+
+  test("should advertise resource templates", async () => {
+    const client = await connect(new StackOverflowServer());
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      "stackoverflow://questions/{id}{?site}",
+      "stackoverflow://answers/{id}{?site}",
+      "stackoverflow://tags/{tag}/faq{?site}",
+    ]);
+  });
+
+  test("should read a question with the accepted answer pinned", async () => {
+    const client = await connect(new StackOverflowServer());
+
+    const { contents } = await client.readResource({ uri: "stackoverflow://questions/12345" });
+    const text = contents[0].text as string;
+
+    expect(text).toContain('# Why does "npm ci" fail?');
+    expect(text.indexOf("Accepted answer")).toBeLessThan(text.indexOf("Popular answer"));
+
+    // Viewed items are listed as resources
+    const { resources } = await client.listResources();
+    expect(resources[0]).toMatchObject({
+      uri: "stackoverflow://questions/12345",
+      name: 'Why does "npm ci" fail?',
+    });
+  });
+
+  test("should read a single answer", async () => {
+    const client = await connect(new StackOverflowServer());
+
+    const { contents } = await client.readResource({ uri: "stackoverflow://answers/67890" });
+
+    expect(contents[0].text).toContain("Popular answer");
+    expect(contents[0].text).not.toContain("Accepted answer");
+  });
+
+  test("should notify subscribers when a write touches the post", async () => {
+    const server = new StackOverflowServer();
+    const client = await connect(server);
+    const updated: string[] = [];
+    client.fallbackNotificationHandler = async (notification) => {
+      if (notification.method === "notifications/resources/updated") {
+        updated.push((notification.params as any).uri);
+      }
+    };
+
+    await client.subscribeResource({ uri: "stackoverflow://questions/12345" });
+    (server as any).notifyPostsUpdated([12345]);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(updated).toEqual(["stackoverflow://questions/12345"]);
+  });
+});
@@ -0,0 +1,182 @@
+import { StackOverflowServer } from "../index.js";
+import { ResponseCache, cacheKey } from "../cache/index.js";
+import { seedAccount } from "./helpers/account.js";
+import {
+  jest,
+  describe,
+  test,
+  expect,
+  beforeEach,
+  afterEach,
+} from "@jest/globals";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Store the original fetch
+const originalFetch = global.fetch;
+
+// Create a custom fetch function type
+// @ts-ignore
+type FetchFunc = typeof global.fetch;
+
+const mockAnswersResponse = {
+  items: [
+    {
+      answer_id: 67890,
+      question_id: 12345,
+      score: 5,
+      is_accepted: true,
+      body: "Test answer",
+      creation_date: 1615100000,
+      link: "https://stackoverflow.com/a/67890",
+    },
+  ],
+};
+
+describe("Response Cache", () => {
+  let mockFetch: jest.MockedFunction<FetchFunc>;
+
+  beforeEach(() => {
+    mockFetch = jest.fn() as jest.MockedFunction<FetchFunc>;
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(mockAnswersResponse),
+      } as Response)
+    );
+    global.fetch = mockFetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.clearAllMocks();
+  });
+
+  test("should normalize keys and ignore auth params", () => {
+    const a = cacheKey(
+      "search",
+      "/search/advanced",
+      new URLSearchParams({ q: "  TypeError   foo ", tagged: "react;javascript", key: "k1" })
+    );
+    const b = cacheKey(
+      "search",
+      "/search/advanced",
+      new URLSearchParams({ tagged: "javascript;react", q: "typeerror foo", access_token: "t" })
+    );
+
+    expect(a).toBe(b);
+  });
+
+  test("should serve repeated fetches from the cache", async () => {
+    const server = new StackOverflowServer();
+
+    await (server as any).fetchAnswers(12345);
+    const answers = await (server as any).fetchAnswers(12345);
+
+    expect(answers).toHaveLength(1);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  test("should refetch when the cache is bypassed", async () => {
+    const server = new StackOverflowServer();
+
+    await (server as any).fetchAnswers(12345);
+    await (server as any).fetchAnswers(12345, { cacheMode: "bypass" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  test("should invalidate entries for posts touched by writes", async () => {
+    const server = new StackOverflowServer();
+
+    await (server as any).fetchAnswers(12345);
+    await (server as any).cache.invalidatePosts([12345]);
+    await (server as any).fetchAnswers(12345);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  test("should invalidate answer lists when a write targets one of the answers", async () => {
+    const auditDir = await mkdtemp(join(tmpdir(), "so-audit-"));
+    process.env.STACKOVERFLOW_AUDIT_LOG = join(auditDir, "audit.jsonl");
+    const server = new StackOverflowServer() as any;
+    server.apiKey = "key";
+    server.accessToken = "token";
+    seedAccount(server);
+
+    try {
+      await server.fetchAnswers(12345);
+      const preview = await server.handleThumbsUp({ postId: 67890, confirmedFixed: true });
+      const { confirmationToken } = JSON.parse(preview.content[0].text);
+      await server.handleConfirmAction({ token: confirmationToken });
+      await server.fetchAnswers(12345);
+    } finally {
+      delete process.env.STACKOVERFLOW_AUDIT_LOG;
+      await rm(auditDir, { recursive: true, force: true });
+    }
+
+    const answerFetches = mockFetch.mock.calls.filter(
+      ([input]) => new URL(input as string).pathname === "/2.3/questions/12345/answers"
+    );
+    expect(answerFetches).toHaveLength(2);
+  });
+
+  test("should serve stale entries while revalidating", async () => {
+    const cache = new ResponseCache({ ttls: { search: 0 } });
+    const fetcher = jest
+      .fn<() => Promise<string>>()
+      .mockResolvedValueOnce("first")
+      .mockResolvedValueOnce("second");
+
+    await cache.getOrFetch("search", "k", fetcher, () => []);
+    const stale = await cache.getOrFetch("search", "k", fetcher, () => []);
+    // Let the background refresh settle
+    await new Promise((resolve) => setImmediate(resolve));
+    const fresh = await cache.getOrFetch("search", "k", fetcher, () => []);
+
+    expect(stale).toBe("first");
+    expect(fresh).toBe("second");
+  });
+
+  test("should purge only its own entry files from the cache directory", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "so-cache-"));
+    try {
+      await writeFile(join(dir, "notes.json"), "{}");
+      const cache = new ResponseCache({ dir });
+      const fetcher = () => Promise.resolve("value");
+      await cache.getOrFetch("answers", "a", fetcher, () => [1]);
+      await cache.getOrFetch("answers", "b", fetcher, () => [2]);
+      expect(await readdir(dir)).toHaveLength(3);
+
+      await cache.getOrFetch("answers", "c", fetcher, () => [3], "purge");
+
+      // "a" and "b" are gone, "c" was stored after the purge, the foreign file stays
+      const files = await readdir(dir);
+      expect(files).toHaveLength(2);
+      expect(files).toContain("notes.json");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("should persist entries to disk", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "so-cache-"));
+    try {
+      const fetcher = jest.fn<() => Promise<string>>().mockResolvedValue("value");
+
+      await new ResponseCache({ dir }).getOrFetch("answers", "k", fetcher, () => [1]);
+      const value = await new ResponseCache({ dir }).getOrFetch(
+        "answers",
+        "k",
+        fetcher,
+        () => [1]
+      );
+
+      expect(value).toBe("value");
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -112,4 +112,34 @@ describe("Response Formatting", () => {
     expect(jsonResponse).toBe("[]");
     expect(markdownResponse).toBe("");
   });
+
+  test("should convert HTML bodies to Markdown in markdown output", () => {
+    const server = new StackOverflowServer();
+
+    const markdownResponse = (server as any).formatResponse(
+      [sampleSearchResult],
+      "markdown"
+    );
+
+    expect(markdownResponse).toContain("Use Jest with ts-jest for TypeScript testing.");
+    expect(markdownResponse).toContain("```\nnpm install jest ts-jest @types/jest\n```");
+    expect(markdownResponse).not.toContain("<p>");
+  });
+
+  test("should convert JSON bodies when bodyFormat is set", () => {
+    const server = new StackOverflowServer();
+
+    const textResponse = JSON.parse(
+      (server as any).formatResponse([sampleSearchResult], "json", "text")
+    );
+    const htmlResponse = JSON.parse(
+      (server as any).formatResponse([sampleSearchResult], "json")
+    );
+
+    expect(textResponse[0].question.body).toBe(
+      "I need help testing my TypeScript code. What are the best practices?"
+    );
+    expect(textResponse[0].comments.answers[67890][0].body).toBe("Great answer, thanks!");
+    expect(htmlResponse[0].question.body).toBe(sampleSearchResult.question.body);
+  });
 });
@@ -0,0 +1,160 @@
+import { StackOverflowServer } from "../index.js";
+import { buildTraceQueries, parseStackTrace } from "../stacktrace/index.js";
+import { jest, describe, test, expect } from "@jest/globals";
+
+const PYTHON_TRACE = `Traceback (most recent call last):
+  File "/app/main.py", line 10, in load
+    return config["db"]
+KeyError: 'db'
+
+During handling of the above exception, another exception occurred:
+
+Traceback (most recent call last):
+  File "/app/main.py", line 20, in <module>
+    main()
+  File "/app/main.py", line 12, in load
+    raise ValueError("missing db config")
+  File "/usr/lib/python3.11/site-packages/click/core.py", line 99, in invoke
+    return callback()
+ValueError: missing db config`;
+
+const JAVA_TRACE = `Exception in thread "main" org.springframework.beans.factory.BeanCreationException: Error creating bean with name 'repo'
+\tat org.springframework.beans.factory.support.AbstractBeanFactory.getBean(AbstractBeanFactory.java:208)
+\tat com.example.App.main(App.java:12)
+Caused by: java.lang.NullPointerException: Cannot invoke "String.length()" because "s" is null
+\tat com.example.Repo.init(Repo.java:42)
+\tat java.base/java.util.ArrayList.forEach(ArrayList.java:1511)
+\t... 2 more`;
+
+const NODE_TRACE = `TypeError: Cannot read properties of undefined (reading 'map')
+    at renderList (/app/src/list.js:7:20)
+    at Object.handler (/app/node_modules/express/lib/router/layer.js:95:5)
+    at node:internal/process/task_queues:95:5`;
+
+const GO_TRACE = `panic: runtime error: index out of range [5] with length 3
+
+goroutine 1 [running]:
+main.pick(...)
+\t/home/me/app/main.go:8
+main.main()
+\t/home/me/app/main.go:13 +0x1d
+exit status 2`;
+
+const DOTNET_TRACE = `Unhandled exception. System.InvalidOperationException: Sequence contains no elements ---> System.ArgumentNullException: Value cannot be null. (Parameter 'source')
+   at System.Linq.ThrowHelper.ThrowArgumentNullException(ExceptionArgument argument)
+   at MyApp.Service.Load() in C:\\src\\MyApp\\Service.cs:line 21
+   --- End of inner exception stack trace ---
+   at MyApp.Program.Main() in C:\\src\\MyApp\\Program.cs:line 9`;
+
+const RUST_TRACE = `thread 'main' panicked at src/main.rs:4:37:
+called \`Option::unwrap()\` on a \`None\` value
+stack backtrace:
+   0: rust_begin_unwind
+             at /rustc/abc/library/std/src/panicking.rs:597:5
+   1: core::panicking::panic
+             at /rustc/abc/library/core/src/panicking.rs:127:5
+   2: app::main
+             at ./src/main.rs:4:37`;
+
+describe("Stack Trace Parsing", () => {
+  test("should use the last Python exception and its chained root cause", () => {
+    const parsed = parseStackTrace(PYTHON_TRACE, "python");
+
+    expect(parsed.exceptionType).toBe("ValueError");
+    expect(parsed.message).toBe("missing db config");
+    expect(parsed.rootCause).toEqual({ exceptionType: "KeyError", message: "'db'" });
+    expect(buildTraceQueries(parsed)).toEqual(["KeyError: 'db'", "ValueError: missing db config"]);
+  });
+
+  test("should follow Java Caused by chains and separate framework frames", () => {
+    const parsed = parseStackTrace(JAVA_TRACE, "java");
+
+    expect(parsed.exceptionType).toBe("org.springframework.beans.factory.BeanCreationException");
+    expect(parsed.rootCause?.exceptionType).toBe("java.lang.NullPointerException");
+    expect(parsed.frames.map((frame) => frame.function)).toEqual([
+      "com.example.Repo.init",
+      "java.util.ArrayList.forEach",
+    ]);
+    expect(parsed.userFrames).toHaveLength(1);
+    expect(parsed.userFrames[0]).toMatchObject({ file: "Repo.java", line: 42 });
+  });
+
+  test("should mark node_modules and node internals as framework code", () => {
+    const parsed = parseStackTrace(NODE_TRACE, "typescript");
+
+    expect(parsed.exceptionType).toBe("TypeError");
+    expect(parsed.frames.map((frame) => frame.isUserCode)).toEqual([true, false, false]);
+    expect(buildTraceQueries(parsed)).toEqual([
+      "TypeError: Cannot read properties of undefined (reading 'map')",
+      "TypeError express",
+    ]);
+  });
+
+  test("should parse Go panics", () => {
+    const parsed = parseStackTrace(GO_TRACE, "golang");
+
+    expect(parsed.exceptionType).toBe("runtime error");
+    expect(parsed.message).toBe("index out of range [5] with length 3");
+    expect(parsed.frames[0]).toMatchObject({
+      function: "main.pick",
+      file: "/home/me/app/main.go",
+      line: 8,
+      isUserCode: true,
+    });
+  });
+
+  test("should use the innermost .NET exception as the root cause", () => {
+    const parsed = parseStackTrace(DOTNET_TRACE, "c#");
+
+    expect(parsed.exceptionType).toBe("System.InvalidOperationException");
+    expect(parsed.rootCause).toEqual({
+      exceptionType: "System.ArgumentNullException",
+      message: "Value cannot be null. (Parameter 'source')",
+    });
+    expect(parsed.userFrames.map((frame) => frame.line)).toEqual([21]);
+  });
+
+  test("should parse Rust panics and backtraces", () => {
+    const parsed = parseStackTrace(RUST_TRACE, "rust");
+
+    expect(parsed.exceptionType).toBe("panic");
+    expect(parsed.message).toBe("called `Option::unwrap()` on a `None` value");
+    expect(parsed.userFrames.map((frame) => frame.function || frame.file)).toEqual([
+      "src/main.rs",
+      "app::main",
+    ]);
+  });
+
+  test("should detect the trace language when the language is unknown", () => {
+    expect(parseStackTrace(PYTHON_TRACE, "unknown").language).toBe("python");
+    expect(parseStackTrace("Something broke", "cobol")).toMatchObject({
+      language: "generic",
+      message: "Something broke",
+    });
+  });
+
+  test("should search each query and return the analysis next to the results", async () => {
+    const server = new StackOverflowServer();
+    const searchSpy = jest.spyOn(server as any, "searchStackOverflow");
+    searchSpy.mockImplementation(async (...args: any[]) => [
+      { question: { question_id: args[0].startsWith("KeyError") ? 1 : 2 }, answers: [] },
+      { question: { question_id: 3 }, answers: [] },
+    ]);
+
+    const result = await (server as any).handleAnalyzeStackTrace({
+      stackTrace: PYTHON_TRACE,
+      language: "python",
+      responseFormat: "json",
+    });
+
+    expect(searchSpy.mock.calls.map((call) => call[0])).toEqual([
+      "KeyError: 'db'",
+      "ValueError: missing db config",
+    ]);
+    const results = JSON.parse(result.content[0].text);
+    expect(results.map((r: any) => r.question.question_id)).toEqual([1, 3, 2]);
+    const { analysis, queries } = JSON.parse(result.content[1].text);
+    expect(analysis.exceptionType).toBe("ValueError");
+    expect(queries).toHaveLength(2);
+  });
+});
@@ -1,4 +1,5 @@
 import { StackOverflowServer } from "../index.js";
+import { parsePostReference } from "../resources/index.js";
 import { jest, describe, test, expect } from "@jest/globals";
 import type {
   SearchByErrorInput,
@@ -169,4 +170,173 @@ describe("Tool Handlers", () => {
       }
     );
   });
+
+  test("should pass the requested site to the API", async () => {
+    const server = new StackOverflowServer();
+
+    mockFetch.mockImplementation(() =>
+      Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ items: [] }),
+      } as Response)
+    );
+
+    await (server as any).handleSearchByError({
+      errorMessage: "permission denied",
+      site: "serverfault",
+    });
+
+    const url = new URL(mockFetch.mock.calls[0][0] as string);
+    expect(url.searchParams.get("site")).toBe("serverfault");
+  });
+
+  test("should merge federated search results and label their site", async () => {
+    const server = new StackOverflowServer();
+
+    const searchSpy = jest.spyOn(server as any, "searchStackOverflow");
+    searchSpy.mockImplementation(async (...args: any[]) => {
+      const site = args[2].site;
+      return [
+        {
+          question: { question_id: site === "unix" ? 1 : 2, score: site === "unix" ? 5 : 50 },
+          answers: [],
+          site,
+        },
+      ];
+    });
+
+    const result = await (server as any).handleSearchByError({
+      errorMessage: "permission denied",
+      sites: ["unix", "serverfault"],
+      responseFormat: "json",
+    });
+
+    const parsed = JSON.parse(result.content[0].text);
+    expect(searchSpy).toHaveBeenCalledTimes(2);
+    expect(parsed.map((r: any) => r.site)).toEqual(["serverfault", "unix"]);
+  });
+
+  test("should list sites from /sites", async () => {
+    const server = new StackOverflowServer();
+
+    mockFetch.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            items: [
+              {
+                api_site_parameter: "serverfault",
+                name: "Server Fault",
+                site_url: "https://serverfault.com",
+                site_type: "main_site",
+              },
+              {
+                api_site_parameter: "meta.serverfault",
+                name: "Meta Server Fault",
+                site_url: "https://meta.serverfault.com",
+                site_type: "meta_site",
+              },
+            ],
+          }),
+      } as Response)
+    );
+
+    const result = await (server as any).handleListSites({ query: "server" });
+
+    const url = new URL(mockFetch.mock.calls[0][0] as string);
+    expect(url.pathname).toBe("/2.3/sites");
+    const parsed = JSON.parse(result.content[0].text);
+    expect(parsed.defaultSite).toBe("stackoverflow");
+    expect(parsed.sites).toEqual([
+      {
+        site: "serverfault",
+        name: "Server Fault",
+        url: "https://serverfault.com",
+        type: "main_site",
+      },
+    ]);
+  });
+
+  test("should parse question ids and links", () => {
+    expect(parsePostReference(12345)).toEqual({ kind: "question", id: 12345 });
+    expect(
+      parsePostReference("https://stackoverflow.com/questions/12345/why-does-npm-ci-fail")
+    ).toEqual({ kind: "question", id: 12345, site: "stackoverflow" });
+    expect(
+      parsePostReference("https://stackoverflow.com/questions/12345/slug/67891#67891")
+    ).toEqual({ kind: "answer", id: 67891, site: "stackoverflow" });
+    expect(parsePostReference("https://unix.stackexchange.com/a/42/1000")).toEqual({
+      kind: "answer",
+      id: 42,
+      site: "unix",
+    });
+    expect(parsePostReference("serverfault.com/q/7")).toEqual({
+      kind: "question",
+      id: 7,
+      site: "serverfault",
+    });
+    expect(parsePostReference("https://stackoverflow.com/questions/tagged/npm")).toBeUndefined();
+    expect(parsePostReference("not a link")).toBeUndefined();
+  });
+
+  test("should handle get_question with the accepted answer pinned", async () => {
+    const server = new StackOverflowServer();
+
+    mockFetch.mockImplementation((input) => {
+      const path = new URL(input as string).pathname;
+      const items = path.startsWith("/2.3/answers/67891")
+        ? [{ answer_id: 67891, question_id: 12345 }]
+        : path.endsWith("/answers")
+          ? [
+              { answer_id: 67890, question_id: 12345, score: 50, is_accepted: false, body: "Popular" },
+              { answer_id: 67891, question_id: 12345, score: 5, is_accepted: true, body: "Accepted" },
+            ]
+          : path.startsWith("/2.3/questions/")
+            ? [
+                { question_id: 99, title: "Second", score: 1, answer_count: 0, tags: [] },
+                { question_id: 12345, title: "First", score: 10, answer_count: 2, tags: [] },
+              ]
+            : [];
+      return Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve({ items }),
+      } as Response);
+    });
+
+    const result = await (server as any).handleGetQuestion({
+      id: "https://stackoverflow.com/a/67891",
+      ids: [99, 404],
+      responseFormat: "json",
+    });
+
+    const parsed = JSON.parse(result.content[0].text);
+    expect(parsed.map((r: any) => r.question.question_id)).toEqual([12345, 99]);
+    expect(parsed[0].answers.map((a: any) => a.answer_id)).toEqual([67891, 67890]);
+    expect(result.content[1].text).toBe("Questions not found: 404");
+
+    const questionsUrl = mockFetch.mock.calls
+      .map((call) => new URL(call[0] as string))
+      .find((url) => /^\/2\.3\/questions\/[\d;]+$/.test(url.pathname));
+    expect(questionsUrl?.pathname).toBe("/2.3/questions/12345;99;404");
+  });
+
+  test("should reject get_question input that is not an id or link", async () => {
+    const server = new StackOverflowServer();
+
+    await expect((server as any).handleGetQuestion({ id: "foo" })).rejects.toThrow(
+      "Not a question id or Stack Exchange link: foo"
+    );
+  });
+
+  test("should call tools without required arguments when none are given", async () => {
+    const server = new StackOverflowServer();
+    const listSpy = jest.spyOn(server as any, "handleListSites");
+    listSpy.mockResolvedValue({ content: [] });
+
+    const callTool = (server as any).createServer()._requestHandlers.get("tools/call");
+    await callTool({ method: "tools/call", params: { name: "list_sites" } }, {});
+
+    expect(listSpy).toHaveBeenCalledWith({});
+  });
 });
@@ -0,0 +1,214 @@
+import { StackOverflowServer } from "../index.js";
+import { seedAccount } from "./helpers/account.js";
+import { jest, describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, readFile, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Store the original fetch
+const originalFetch = global.fetch;
+
+// Create a custom fetch function type
+// @ts-ignore
+type FetchFunc = typeof global.fetch;
+
+const posts: Record<string, object> = {
+  "12345": { post_id: 12345, post_type: "question", owner: { user_id: 2 }, title: "Build fails" },
+  "77": { post_id: 77, post_type: "answer", owner: { user_id: 2 }, title: "Build fails" },
+  "88": { post_id: 88, post_type: "answer", owner: { user_id: 1 }, title: "Build fails" },
+};
+
+const flagOptions = [
+  {
+    option_id: 1,
+    title: "spam",
+    description: "Exists only to promote a product or service",
+    requires_comment: false,
+    has_flagged: false,
+  },
+  {
+    option_id: 2,
+    title: "in need of moderator intervention",
+    description: "A problem not listed above",
+    requires_comment: true,
+    has_flagged: false,
+  },
+  {
+    option_id: 3,
+    title: "rude or abusive",
+    description: "Unkind to other users",
+    requires_comment: false,
+    has_flagged: true,
+  },
+  {
+    option_id: 4,
+    title: "should be closed",
+    description: "Needs to be closed",
+    requires_comment: false,
+    has_flagged: false,
+    sub_options: [
+      {
+        option_id: 5,
+        title: "duplicate",
+        description: "Answered before",
+        requires_comment: false,
+        requires_question_id: true,
+        has_flagged: false,
+      },
+    ],
+  },
+];
+
+describe("Vote and Flag Tools", () => {
+  let mockFetch: jest.MockedFunction<FetchFunc>;
+  let auditDir: string;
+
+  beforeEach(async () => {
+    auditDir = await mkdtemp(join(tmpdir(), "so-audit-"));
+    process.env.STACKOVERFLOW_AUDIT_LOG = join(auditDir, "audit.jsonl");
+    mockFetch = jest.fn() as jest.MockedFunction<FetchFunc>;
+    mockFetch.mockImplementation((input, init) => {
+      const path = new URL(input as string).pathname.replace("/2.3", "");
+      let items: object[] = [];
+      if (init?.method === "POST") {
+        items = [];
+      } else if (path.endsWith("/flags/options")) {
+        items = flagOptions;
+      } else if (path.startsWith("/posts/")) {
+        items = posts[path.split("/")[2]] ? [posts[path.split("/")[2]]] : [];
+      }
+      return Promise.resolve({ ok: true, json: () => Promise.resolve({ items }) } as Response);
+    });
+    global.fetch = mockFetch;
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    delete process.env.STACKOVERFLOW_AUDIT_LOG;
+    await rm(auditDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  const writeServer = () => {
+    const server = new StackOverflowServer() as any;
+    server.apiKey = "key";
+    server.accessToken = "token";
+    seedAccount(server);
+    return server;
+  };
+
+  const posted = () =>
+    mockFetch.mock.calls
+      .filter(([, init]) => (init as RequestInit | undefined)?.method === "POST")
+      .map(([input]) => new URL(input as string).pathname);
+
+  test("should withdraw a mistaken upvote after confirmation and audit it", async () => {
+    const server = writeServer();
+
+    await expect(
+      server.handleUndoVote({ postId: 77, confirmedMistake: false, reason: "Misclick" })
+    ).rejects.toThrow("Refusing to undo the vote: confirmedMistake must be true");
+    await expect(
+      server.handleUndoVote({ postId: 77, confirmedMistake: true, reason: " " })
+    ).rejects.toThrow("Refusing to undo the vote: reason is required");
+
+    const preview = await server.runWriteTool("undo_vote", {
+      postId: 77,
+      confirmedMistake: true,
+      reason: "Upvoted the wrong answer",
+    });
+    const { confirmationToken, request } = JSON.parse(preview.content[0].text);
+    expect(request.url).toBe("https://api.stackexchange.com/2.3/posts/77/upvote/undo");
+
+    const result = await server.handleConfirmAction({ token: confirmationToken });
+    expect(result.content[0].text).toBe("Vote withdrawn successfully");
+    expect(posted()).toEqual(["/2.3/posts/77/upvote/undo"]);
+
+    const entries = (await readFile(process.env.STACKOVERFLOW_AUDIT_LOG as string, "utf8"))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(entries.map((entry) => [entry.tool, entry.outcome, entry.targetPostId])).toEqual([
+      ["undo_vote", "pending_confirmation", 77],
+      ["undo_vote", "posted", 77],
+    ]);
+  });
+
+  test("should downvote only other users' answers verified to be wrong", async () => {
+    const input = { answerId: 77, verifiedWrong: true, evidence: ["Fails on Node 20"], dryRun: true };
+
+    const result = await writeServer().handleDownvote(input);
+    expect(JSON.parse(result.content[0].text).request.url).toBe(
+      "https://api.stackexchange.com/2.3/posts/77/downvote"
+    );
+
+    await expect(writeServer().handleDownvote({ ...input, verifiedWrong: false })).rejects.toThrow(
+      "Refusing to downvote: verifiedWrong must be true"
+    );
+    await expect(writeServer().handleDownvote({ ...input, evidence: [] })).rejects.toThrow(
+      "Refusing to downvote: evidence is required"
+    );
+    await expect(writeServer().handleDownvote({ ...input, answerId: 12345 })).rejects.toThrow(
+      "only answers verified to be wrong or harmful can be downvoted"
+    );
+    await expect(writeServer().handleDownvote({ ...input, answerId: 88 })).rejects.toThrow(
+      "Refusing to downvote: the answer is your own"
+    );
+    expect(posted()).toHaveLength(0);
+  });
+
+  test("should list flag options, sub-options included, without flagging or auditing", async () => {
+    const result = await writeServer().handleFlagOptions({
+      postId: 77,
+      reason: "Spam",
+      evidence: ["link"],
+    });
+
+    const listing = JSON.parse(result.content[0].text);
+    expect(listing.options.map((option: any) => option.optionId)).toEqual([1, 2, 3, 4, 5]);
+    expect(listing.options[4].supported).toBe(false);
+    expect(posted()).toHaveLength(0);
+    await expect(stat(process.env.STACKOVERFLOW_AUDIT_LOG as string)).rejects.toThrow();
+  });
+
+  test("should flag with the chosen option and its comment", async () => {
+    const result = await writeServer().handleFlagPost({
+      postId: 77,
+      optionId: 2,
+      comment: "Links to a phishing site",
+      reason: "The answer links to a fake download",
+      evidence: ["https://example.com/fake"],
+      dryRun: true,
+    });
+
+    const { request } = JSON.parse(result.content[0].text);
+    expect(request.url).toBe("https://api.stackexchange.com/2.3/posts/77/flags/add");
+    expect(request.payload).toEqual({
+      site: "stackoverflow",
+      option_id: "2",
+      comment: "Links to a phishing site",
+      key: "***",
+      access_token: "***",
+    });
+  });
+
+  test("should refuse unjustified, unknown, used and unsupported flags", async () => {
+    const flag = (input: object) =>
+      writeServer().handleFlagPost({ postId: 77, reason: "Spam", evidence: ["link"], ...input });
+
+    await expect(flag({ optionId: 1, evidence: [] })).rejects.toThrow(
+      "Refusing to flag: evidence is required"
+    );
+    await expect(flag({ optionId: 9 })).rejects.toThrow("Unknown flag option 9 for post 77");
+    await expect(flag({ optionId: 3 })).rejects.toThrow(
+      'Refusing to flag: you already flagged this post as "rude or abusive"'
+    );
+    await expect(flag({ optionId: 5 })).rejects.toThrow(
+      '"duplicate" needs a target site or duplicate question'
+    );
+    await expect(flag({ optionId: 2 })).rejects.toThrow(
+      'Refusing to flag: "in need of moderator intervention" requires a comment'
+    );
+    expect(posted()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,243 @@
+import { StackOverflowServer } from "../index.js";
+import { seedAccount } from "./helpers/account.js";
+import { jest, describe, test, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Store the original fetch
+const originalFetch = global.fetch;
+
+// Create a custom fetch function type
+// @ts-ignore
+type FetchFunc = typeof global.fetch;
+
+const question = {
+  question_id: 12345,
+  title: "Build fails with &quot;ENOSPC&quot;",
+  body: "<p>Question body</p>",
+  score: 1,
+  answer_count: 0,
+  is_answered: false,
+  creation_date: 1615000000,
+  tags: ["node.js"],
+  link: "https://stackoverflow.com/q/12345",
+};
+
+describe("Write Tools", () => {
+  let mockFetch: jest.MockedFunction<FetchFunc>;
+  let auditDir: string;
+
+  beforeEach(async () => {
+    auditDir = await mkdtemp(join(tmpdir(), "so-audit-"));
+    process.env.STACKOVERFLOW_AUDIT_LOG = join(auditDir, "audit.jsonl");
+    mockFetch = jest.fn() as jest.MockedFunction<FetchFunc>;
+    mockFetch.mockImplementation((input) => {
+      const path = new URL(input as string).pathname;
+      return Promise.resolve({
+        ok: true,
+        json: () =>
+          Promise.resolve({ items: path.startsWith("/2.3/questions/12345") ? [question] : [] }),
+      } as Response);
+    });
+    global.fetch = mockFetch;
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    delete process.env.STACKOVERFLOW_DRY_RUN;
+    delete process.env.STACKOVERFLOW_AUDIT_LOG;
+    await rm(auditDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  const writeServer = () => {
+    const server = new StackOverflowServer();
+    (server as any).apiKey = "key";
+    (server as any).accessToken = "token";
+    seedAccount(server);
+    return server;
+  };
+
+  const posts = () =>
+    mockFetch.mock.calls.filter(([, init]) => (init as RequestInit | undefined)?.method === "POST");
+
+  test("should preview a question after the duplicate check without posting", async () => {
+    const result = await (writeServer() as any).handlePostQuestion({
+      title: "ENOSPC when watching files",
+      body: "Details",
+      tags: ["node.js", "webpack"],
+      errorSignature: "ENOSPC: System limit for number of file watchers reached",
+      triedApproaches: ["a", "b", "c"],
+      dryRun: true,
+    });
+
+    const preview = JSON.parse(result.content[0].text);
+    expect(new URL(mockFetch.mock.calls[0][0] as string).pathname).toBe("/2.3/search/advanced");
+    expect(posts()).toHaveLength(0);
+    expect(preview.dryRun).toBe(true);
+    expect(preview.request).toEqual({
+      method: "POST",
+      url: "https://api.stackexchange.com/2.3/questions/add",
+      payload: {
+        site: "stackoverflow",
+        title: "ENOSPC when watching files",
+        body: "Details",
+        tags: "node.js;webpack",
+        key: "***",
+        access_token: "***",
+      },
+    });
+    expect(preview.preview).toContain("# ENOSPC when watching files");
+  });
+
+  test("should preview answers, votes and comments without posting", async () => {
+    const server = writeServer();
+
+    const answer = JSON.parse(
+      (
+        await (server as any).handlePostSolution({
+          questionId: 12345,
+          body: "Raise fs.inotify.max_user_watches",
+          confirmedResolved: true,
+          evidence: ["watcher starts"],
+          dryRun: true,
+        })
+      ).content[0].text
+    );
+    const vote = JSON.parse(
+      (await (server as any).handleThumbsUp({ postId: 7, confirmedFixed: true, dryRun: true }))
+        .content[0].text
+    );
+    const comment = JSON.parse(
+      (
+        await (server as any).handleCommentSolution({
+          questionId: 12345,
+          body: "Which OS?",
+          dryRun: true,
+        })
+      ).content[0].text
+    );
+
+    expect(posts()).toHaveLength(0);
+    expect(answer.request.url).toBe(
+      "https://api.stackexchange.com/2.3/questions/12345/answers/add"
+    );
+    expect(answer.preview).toBe(
+      '## Answer to: Build fails with "ENOSPC"\n\nRaise fs.inotify.max_user_watches'
+    );
+    expect(vote.request.url).toBe("https://api.stackexchange.com/2.3/posts/7/upvote");
+    expect(comment.request.payload.body).toBe("Which OS?");
+  });
+
+  test("should still enforce the policy checks in a dry run", async () => {
+    await expect(
+      (new StackOverflowServer() as any).handleThumbsUp({
+        postId: 7,
+        confirmedFixed: true,
+        dryRun: true,
+      })
+    ).rejects.toThrow("Write operations require STACKOVERFLOW_API_KEY");
+
+    await expect(
+      (writeServer() as any).handlePostSolution({
+        questionId: 12345,
+        body: "x",
+        confirmedResolved: false,
+        evidence: ["y"],
+        dryRun: true,
+      })
+    ).rejects.toThrow("confirmedResolved must be true");
+  });
+
+  test("should use STACKOVERFLOW_DRY_RUN as the default", async () => {
+    process.env.STACKOVERFLOW_DRY_RUN = "true";
+    const server = writeServer();
+
+    const preview = JSON.parse(
+      (await (server as any).handleThumbsUp({ postId: 7, confirmedFixed: true })).content[0].text
+    );
+    expect(preview.dryRun).toBe(true);
+
+    const held = JSON.parse(
+      (await (server as any).handleThumbsUp({ postId: 7, confirmedFixed: true, dryRun: false }))
+        .content[0].text
+    );
+    expect(held.dryRun).toBeUndefined();
+    expect(held.confirmationToken).toBeDefined();
+    expect(posts()).toHaveLength(0);
+  });
+
+  test("should publish only after confirm_action presents the token", async () => {
+    const server = writeServer();
+
+    const held = JSON.parse(
+      (
+        await (server as any).handleCommentSolution({
+          questionId: 12345,
+          body: "Which OS?",
+        })
+      ).content[0].text
+    );
+    expect(held.confirmationToken).toMatch(/^[\w-]{12}$/);
+    expect(held.preview).toContain("Which OS?");
+    expect(posts()).toHaveLength(0);
+
+    await (server as any).handleConfirmAction({ token: held.confirmationToken });
+    expect(posts()).toHaveLength(1);
+    expect(new URL(posts()[0][0] as string).pathname).toBe("/2.3/posts/12345/comments/add");
+
+    // Single use
+    await expect(
+      (server as any).handleConfirmAction({ token: held.confirmationToken })
+    ).rejects.toThrow("Unknown or already used confirmation token");
+  });
+
+  test("should reject a token when the payload changed", async () => {
+    const server = writeServer();
+
+    const held = JSON.parse(
+      (
+        await (server as any).handleCommentSolution({ questionId: 12345, body: "Which OS?" })
+      ).content[0].text
+    );
+
+    await expect(
+      (server as any).handleCommentSolution({
+        questionId: 12345,
+        body: "Which OS and Node version?",
+        confirmationToken: held.confirmationToken,
+      })
+    ).rejects.toThrow("The payload changed");
+    expect(posts()).toHaveLength(0);
+  });
+
+  test("should reject expired tokens", async () => {
+    const server = writeServer();
+    const now = Date.now();
+    const clock = jest.spyOn(Date, "now").mockReturnValue(now);
+
+    const held = JSON.parse(
+      (await (server as any).handleThumbsUp({ postId: 7, confirmedFixed: true })).content[0].text
+    );
+    clock.mockReturnValue(now + 5 * 60 * 1000 + 1);
+
+    await expect(
+      (server as any).handleThumbsUp({
+        postId: 7,
+        confirmedFixed: true,
+        confirmationToken: held.confirmationToken,
+      })
+    ).rejects.toThrow("Confirmation token expired");
+    clock.mockRestore();
+  });
+
+  test("should post directly when confirmation is turned off", async () => {
+    process.env.STACKOVERFLOW_REQUIRE_CONFIRMATION = "false";
+    const server = writeServer();
+    delete process.env.STACKOVERFLOW_REQUIRE_CONFIRMATION;
+
+    await (server as any).handleThumbsUp({ postId: 7, confirmedFixed: true });
+    expect(posts()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,73 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { AuditEntry, AuditQuery } from "../types/index.js";
+
+export const DEFAULT_AUDIT_LOG = join(homedir(), ".stackoverflow-mcp", "audit.jsonl");
+
+const DEFAULT_QUERY_LIMIT = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Both bounds are inclusive; a bare date as the upper bound includes that whole day
+function parseBound(value: string | undefined, end: boolean): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return end && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + DAY_MS - 1 : time;
+}
+
+/**
+ * Append-only JSONL log of write attempts. Entries hold payload hashes, never bodies.
+ */
+export class AuditLog {
+  constructor(private path: string) {}
+
+  async append(entry: AuditEntry): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+  }
+
+  /**
+   * Entries matching the filter, newest first
+   */
+  async query(filter: AuditQuery = {}): Promise<{ entries: AuditEntry[]; total: number }> {
+    let content: string;
+    try {
+      content = await readFile(this.path, "utf8");
+    } catch {
+      return { entries: [], total: 0 };
+    }
+
+    const from = parseBound(filter.from, false);
+    const to = parseBound(filter.to, true);
+    const matches: AuditEntry[] = [];
+
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // Skip a partially written last line
+        continue;
+      }
+
+      const time = Date.parse(entry.timestamp);
+      if (from !== undefined && time < from) continue;
+      if (to !== undefined && time > to) continue;
+      if (filter.outcome && entry.outcome !== filter.outcome) continue;
+      if (filter.tool && entry.tool !== filter.tool) continue;
+      matches.push(entry);
+    }
+
+    matches.reverse();
+    return {
+      entries: matches.slice(0, filter.limit || DEFAULT_QUERY_LIMIT),
+      total: matches.length,
+    };
+  }
+}
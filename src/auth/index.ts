@@ -0,0 +1,214 @@
+import { createServer } from "node:http";
+import { chmodSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { AuthConfig, StoredCredentials } from "../types/index.js";
+
+export const DEFAULT_CREDENTIALS = join(homedir(), ".stackoverflow-mcp", "credentials.json");
+
+export const OAUTH_SCOPES = ["write_access", "no_expiry", "read_inbox"];
+
+const AUTHORIZE_URL = "https://stackoverflow.com/oauth";
+const ACCESS_TOKEN_URL = "https://stackoverflow.com/oauth/access_token/json";
+const ACCESS_TOKENS_API = "https://api.stackexchange.com/2.3/access-tokens";
+const CALLBACK_PATH = "/callback";
+
+export function credentialsPath(env: NodeJS.ProcessEnv): string {
+  return env.STACKOVERFLOW_CREDENTIALS || DEFAULT_CREDENTIALS;
+}
+
+/**
+ * Reads stored credentials. Returns undefined when there are none, they are unreadable
+ * or the token has expired.
+ */
+export function loadCredentials(path: string): StoredCredentials | undefined {
+  let credentials: StoredCredentials;
+  try {
+    credentials = JSON.parse(readFileSync(path, "utf8"));
+  } catch {
+    return undefined;
+  }
+  if (!credentials.accessToken) {
+    return undefined;
+  }
+  if (credentials.expiresAt && credentials.expiresAt <= Date.now()) {
+    return undefined;
+  }
+  return credentials;
+}
+
+/**
+ * Writes credentials readable by the current user only
+ */
+export function saveCredentials(path: string, credentials: StoredCredentials) {
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  writeFileSync(path, `${JSON.stringify(credentials, null, 2)}\n`, { mode: 0o600 });
+  // mode only applies when the file is created
+  chmodSync(path, 0o600);
+}
+
+export function deleteCredentials(path: string) {
+  rmSync(path, { force: true });
+}
+
+/**
+ * Environment variables win over stored credentials, one value at a time
+ */
+export function resolveAuth(env: NodeJS.ProcessEnv): AuthConfig {
+  const stored =
+    env.STACKOVERFLOW_API_KEY && env.STACKOVERFLOW_ACCESS_TOKEN
+      ? undefined
+      : loadCredentials(credentialsPath(env));
+  return {
+    apiKey: env.STACKOVERFLOW_API_KEY || stored?.apiKey,
+    accessToken: env.STACKOVERFLOW_ACCESS_TOKEN || stored?.accessToken,
+  };
+}
+
+export function buildAuthorizeUrl(clientId: string, redirectUri: string, state: string): string {
+  const params = new URLSearchParams({
+    client_id: clientId,
+    scope: OAUTH_SCOPES.join(","),
+    redirect_uri: redirectUri,
+    state,
+  });
+  return `${AUTHORIZE_URL}?${params}`;
+}
+
+/**
+ * Starts a localhost listener for the OAuth redirect. `code` resolves with the
+ * authorization code once the browser comes back with the expected state; requests
+ * with another state get a 400 and the listener keeps waiting until the timeout.
+ */
+export async function listenForCallback(
+  port: number,
+  state: string,
+  timeoutMs: number
+): Promise<{ redirectUri: string; code: Promise<string> }> {
+  let settle!: (error: Error | undefined, code?: string) => void;
+  const code = new Promise<string>((resolve, reject) => {
+    settle = (error, value) => (error ? reject(error) : resolve(value as string));
+  });
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== CALLBACK_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    // Stray requests (a reload, an old tab) are answered but do not end the login
+    if (url.searchParams.get("state") !== state) {
+      res.writeHead(400, { "Content-Type": "text/plain; charset=utf-8" });
+      res.end("OAuth callback state does not match; finish the login in the tab it opened\n");
+      return;
+    }
+
+    const error = url.searchParams.get("error");
+    const received = url.searchParams.get("code");
+    let failure: Error | undefined;
+    if (error || !received) {
+      failure = new Error(
+        `Authorization failed: ${url.searchParams.get("error_description") || error || "no code"}`
+      );
+    }
+
+    res.writeHead(failure ? 400 : 200, { "Content-Type": "text/plain; charset=utf-8" });
+    res.end(
+      failure
+        ? `${failure.message}\n`
+        : "Logged in to Stack Exchange. You can close this window.\n",
+      () => finish(failure, received || undefined)
+    );
+  });
+
+  const timer = setTimeout(
+    () => finish(new Error(`Timed out after ${timeoutMs / 1000}s waiting for the OAuth redirect`)),
+    timeoutMs
+  );
+  const finish = (error: Error | undefined, value?: string) => {
+    clearTimeout(timer);
+    server.close();
+    server.closeAllConnections();
+    settle(error, value);
+  };
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "localhost", () => resolve());
+  });
+  const address = server.address();
+  const actualPort = typeof address === "object" && address ? address.port : port;
+
+  return { redirectUri: `http://localhost:${actualPort}${CALLBACK_PATH}`, code };
+}
+
+/**
+ * Exchanges an authorization code for an access token (explicit flow)
+ */
+export async function exchangeCode(options: {
+  clientId: string;
+  clientSecret: string;
+  code: string;
+  redirectUri: string;
+}): Promise<{ accessToken: string; expiresAt?: number }> {
+  const response = await fetch(ACCESS_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: options.clientId,
+      client_secret: options.clientSecret,
+      code: options.code,
+      redirect_uri: options.redirectUri,
+    }).toString(),
+  });
+
+  const data = (await response.json().catch(() => ({}))) as {
+    access_token?: string;
+    expires?: number;
+    error?: { type?: string; message?: string };
+  };
+  if (!response.ok || !data.access_token) {
+    throw new Error(
+      `Failed to obtain an access token: ${
+        data.error?.message || data.error?.type || response.statusText || response.status
+      }`
+    );
+  }
+
+  return {
+    accessToken: data.access_token,
+    ...(data.expires && { expiresAt: Date.now() + data.expires * 1000 }),
+  };
+}
+
+async function accessTokensRequest(path: string, apiKey?: string) {
+  const params = new URLSearchParams(apiKey ? { key: apiKey } : {});
+  const response = await fetch(`${ACCESS_TOKENS_API}/${path}?${params}`);
+  const data = (await response.json().catch(() => ({}))) as {
+    items?: Array<{ scope?: string[]; expires_on_date?: number; account_id?: number }>;
+    error_message?: string;
+  };
+  if (!response.ok) {
+    throw new Error(data.error_message || response.statusText || String(response.status));
+  }
+  return data.items || [];
+}
+
+/**
+ * Asks the API whether a token is still valid. Returns undefined for unknown or revoked tokens.
+ */
+export async function inspectToken(accessToken: string, apiKey?: string) {
+  const [item] = await accessTokensRequest(encodeURIComponent(accessToken), apiKey);
+  return (
+    item && {
+      scope: item.scope || [],
+      accountId: item.account_id,
+      ...(item.expires_on_date && { expiresAt: item.expires_on_date * 1000 }),
+    }
+  );
+}
+
+export async function invalidateToken(accessToken: string, apiKey?: string) {
+  await accessTokensRequest(`${encodeURIComponent(accessToken)}/invalidate`, apiKey);
+}
@@ -0,0 +1,307 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { CacheEndpoint, CacheEntry, CacheMode } from "../types/index.js";
+
+// Default freshness per endpoint, in milliseconds
+export const DEFAULT_TTLS: Record<CacheEndpoint, number> = {
+  search: 60 * 60 * 1000,
+  questions: 60 * 60 * 1000,
+  question: 15 * 60 * 1000,
+  answers: 15 * 60 * 1000,
+  comments: 15 * 60 * 1000,
+  sites: 24 * 60 * 60 * 1000,
+};
+
+// How long an expired entry may still be served while it is refreshed in the background
+const DEFAULT_STALE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+// Params that identify the caller rather than the request
+const IGNORED_PARAMS = new Set(["key", "access_token"]);
+
+/**
+ * Storage backend for cached API responses
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  entries(): Promise<CacheEntry[]>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory LRU store; Map iteration order doubles as recency order
+ */
+export class MemoryCacheStore implements CacheStore {
+  private items = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string) {
+    const entry = this.items.get(key);
+    if (entry) {
+      this.items.delete(key);
+      this.items.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(entry: CacheEntry) {
+    this.items.delete(entry.key);
+    this.items.set(entry.key, entry);
+    while (this.items.size > this.maxEntries) {
+      const oldest = this.items.keys().next().value as string;
+      this.items.delete(oldest);
+    }
+  }
+
+  async delete(key: string) {
+    this.items.delete(key);
+  }
+
+  async entries() {
+    return [...this.items.values()];
+  }
+
+  async clear() {
+    this.items.clear();
+  }
+}
+
+/**
+ * On-disk store writing one JSON file per entry, named by the hash of its key
+ */
+const ENTRY_FILE = /^[0-9a-f]{64}\.json$/; // sha256 of the cache key
+
+export class FileCacheStore implements CacheStore {
+  constructor(private dir: string) {}
+
+  private pathFor(key: string) {
+    return join(this.dir, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+
+  async get(key: string) {
+    try {
+      const entry = JSON.parse(await readFile(this.pathFor(key), "utf8")) as CacheEntry;
+      return entry.key === key ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(entry: CacheEntry) {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(entry.key), JSON.stringify(entry));
+  }
+
+  async delete(key: string) {
+    await unlink(this.pathFor(key)).catch(() => undefined);
+  }
+
+  async entries() {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const entries: CacheEntry[] = [];
+    for (const file of files.filter((name) => ENTRY_FILE.test(name))) {
+      try {
+        entries.push(JSON.parse(await readFile(join(this.dir, file), "utf8")));
+      } catch {
+        // Ignore partially written or foreign files
+      }
+    }
+    return entries;
+  }
+
+  // Only the entry files this store wrote: the directory may hold other files
+  async clear() {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch {
+      return;
+    }
+    await Promise.all(
+      files
+        .filter((name) => ENTRY_FILE.test(name))
+        .map((name) => unlink(join(this.dir, name)).catch(() => undefined))
+    );
+  }
+}
+
+export interface ResponseCacheOptions {
+  ttls?: Partial<Record<CacheEndpoint, number>>;
+  staleMs?: number;
+  maxEntries?: number;
+  dir?: string; // enables the on-disk store when set
+}
+
+/**
+ * Reads per-endpoint TTL overrides (in seconds) from STACKOVERFLOW_CACHE_TTL_<ENDPOINT>
+ */
+export function ttlsFromEnv(
+  env: NodeJS.ProcessEnv
+): Partial<Record<CacheEndpoint, number>> {
+  const ttls: Partial<Record<CacheEndpoint, number>> = {};
+  for (const endpoint of Object.keys(DEFAULT_TTLS) as CacheEndpoint[]) {
+    const value = env[`STACKOVERFLOW_CACHE_TTL_${endpoint.toUpperCase()}`];
+    if (value !== undefined && !isNaN(Number(value))) {
+      ttls[endpoint] = Number(value) * 1000;
+    }
+  }
+  return ttls;
+}
+
+/**
+ * Builds a stable cache key from the endpoint, path and request params.
+ * Auth params are dropped, params are sorted, and the query text and tags are normalized.
+ */
+export function cacheKey(
+  endpoint: CacheEndpoint,
+  path: string,
+  params: URLSearchParams
+): string {
+  const normalized = [...params.entries()]
+    .filter(([name]) => !IGNORED_PARAMS.has(name))
+    .map(([name, value]) => {
+      if (name === "q") {
+        return [name, value.trim().replace(/\s+/g, " ").toLowerCase()];
+      }
+      if (name === "tagged") {
+        return [name, value.toLowerCase().split(";").sort().join(";")];
+      }
+      return [name, value];
+    })
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+
+  return `${endpoint}:${path}?${normalized}`;
+}
+
+/**
+ * Two-tier (memory + optional disk) response cache with per-endpoint TTLs
+ * and stale-while-revalidate.
+ */
+export class ResponseCache {
+  private stores: CacheStore[];
+  private ttls: Record<CacheEndpoint, number>;
+  private staleMs: number;
+  private refreshing = new Map<string, Promise<unknown>>();
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.ttls = { ...DEFAULT_TTLS, ...options.ttls };
+    this.staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+    this.stores = [new MemoryCacheStore(options.maxEntries)];
+    if (options.dir) {
+      this.stores.push(new FileCacheStore(options.dir));
+    }
+  }
+
+  /**
+   * Returns the cached value for `key` or calls `fetcher` and stores its result.
+   * `postIdsOf` extracts the post ids a value refers to, so writes can invalidate it.
+   */
+  async getOrFetch<T>(
+    endpoint: CacheEndpoint,
+    key: string,
+    fetcher: () => Promise<T>,
+    postIdsOf: (value: T) => number[],
+    mode: CacheMode = "default"
+  ): Promise<T> {
+    if (mode === "purge") {
+      await this.clear();
+    }
+
+    if (mode === "default") {
+      const entry = await this.lookup(key);
+      if (entry) {
+        const age = Date.now() - entry.storedAt;
+        if (age < this.ttls[endpoint]) {
+          return entry.value as T;
+        }
+        if (age < this.ttls[endpoint] + this.staleMs) {
+          this.revalidate(endpoint, key, fetcher, postIdsOf);
+          return entry.value as T;
+        }
+      }
+    }
+
+    return this.refresh(endpoint, key, fetcher, postIdsOf);
+  }
+
+  /**
+   * Drops every entry that refers to one of the given posts
+   */
+  async invalidatePosts(postIds: number[]): Promise<void> {
+    const ids = new Set(postIds);
+    for (const store of this.stores) {
+      for (const entry of await store.entries()) {
+        if (entry.postIds.some((id) => ids.has(id))) {
+          await store.delete(entry.key);
+        }
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    for (const store of this.stores) {
+      await store.clear();
+    }
+  }
+
+  private async lookup(key: string): Promise<CacheEntry | undefined> {
+    for (const [index, store] of this.stores.entries()) {
+      const entry = await store.get(key);
+      if (entry) {
+        // Promote disk hits into memory
+        if (index > 0) {
+          await this.stores[0].set(entry);
+        }
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  private async refresh<T>(
+    endpoint: CacheEndpoint,
+    key: string,
+    fetcher: () => Promise<T>,
+    postIdsOf: (value: T) => number[]
+  ): Promise<T> {
+    const value = await fetcher();
+    const entry: CacheEntry = {
+      key,
+      endpoint,
+      value,
+      postIds: postIdsOf(value),
+      storedAt: Date.now(),
+    };
+    for (const store of this.stores) {
+      await store.set(entry);
+    }
+    return value;
+  }
+
+  private revalidate<T>(
+    endpoint: CacheEndpoint,
+    key: string,
+    fetcher: () => Promise<T>,
+    postIdsOf: (value: T) => number[]
+  ) {
+    if (this.refreshing.has(key)) {
+      return;
+    }
+    const pending = this.refresh(endpoint, key, fetcher, postIdsOf)
+      .catch((error) => console.warn("Background cache refresh failed:", error))
+      .finally(() => this.refreshing.delete(key));
+    this.refreshing.set(key, pending);
+  }
+}
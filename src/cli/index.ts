@@ -0,0 +1,233 @@
+import { spawn } from "node:child_process";
+import { randomBytes } from "node:crypto";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { createInterface } from "node:readline";
+import { importDump } from "../offline/index.js";
+import {
+  OAUTH_SCOPES,
+  buildAuthorizeUrl,
+  credentialsPath,
+  deleteCredentials,
+  exchangeCode,
+  inspectToken,
+  invalidateToken,
+  listenForCallback,
+  loadCredentials,
+  saveCredentials,
+} from "../auth/index.js";
+
+export const DEFAULT_OFFLINE_INDEX = join(
+  homedir(),
+  ".stackoverflow-mcp",
+  "offline-index.json"
+);
+
+const USAGE = `Usage:
+  stackoverflow-mcp                                   Start the MCP server
+  stackoverflow-mcp offline import <dumpDir> [--site <site>] [--index <path>]
+                                                      Import a Stack Exchange data dump of at most
+                                                      256 MiB (Posts.xml plus Comments.xml); too small
+                                                      for the full Stack Overflow dump
+  stackoverflow-mcp auth login [--client-id <id>] [--key <apiKey>] [--port <port>]
+                                                      Obtain an access token through the browser; the
+                                                      client secret is read from STACKOVERFLOW_CLIENT_SECRET
+                                                      or prompted for
+  stackoverflow-mcp auth status                       Show the stored token and whether it is still valid
+  stackoverflow-mcp auth logout                       Revoke and delete the stored token`;
+
+const DEFAULT_CALLBACK_PORT = 8765;
+const LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function offlineImport(args: string[]) {
+  const dumpDir = args[0];
+  if (!dumpDir || dumpDir.startsWith("--")) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const site = option(args, "--site") || process.env.STACKOVERFLOW_SITE || "stackoverflow";
+  const indexPath =
+    option(args, "--index") || process.env.STACKOVERFLOW_OFFLINE_INDEX || DEFAULT_OFFLINE_INDEX;
+
+  console.error(`Importing ${dumpDir} (${site}) into ${indexPath}...`);
+  const data = await importDump(dumpDir, indexPath, site);
+  console.error(
+    `Imported ${Object.keys(data.questions).length} questions and ${
+      Object.keys(data.postings).length
+    } index terms`
+  );
+}
+
+function openBrowser(url: string) {
+  const [command, ...args] =
+    process.platform === "darwin"
+      ? ["open", url]
+      : process.platform === "win32"
+        ? ["cmd", "/c", "start", "", url]
+        : ["xdg-open", url];
+  try {
+    spawn(command, args, { stdio: "ignore", detached: true })
+      .on("error", () => undefined)
+      .unref();
+  } catch {
+    // The URL is printed as well
+  }
+}
+
+function maskToken(token: string): string {
+  return token.length > 8 ? `${token.slice(0, 4)}...${token.slice(-4)}` : "***";
+}
+
+/**
+ * Reads a line from the terminal without echoing it
+ */
+async function promptSecret(question: string): Promise<string> {
+  const prompt = createInterface({ input: process.stdin, output: process.stderr, terminal: true });
+  process.stderr.write(question);
+  (prompt as unknown as { _writeToOutput: (text: string) => void })._writeToOutput = () => undefined;
+  const answer = await new Promise<string>((resolve) => prompt.question("", resolve));
+  prompt.close();
+  process.stderr.write("\n");
+  return answer.trim();
+}
+
+async function authLogin(args: string[]) {
+  // Secrets on the command line end up in shell history and `ps`
+  if (args.includes("--client-secret")) {
+    console.error(
+      "--client-secret is not accepted; set STACKOVERFLOW_CLIENT_SECRET or enter the secret when prompted"
+    );
+    process.exitCode = 1;
+    return;
+  }
+  const clientId = option(args, "--client-id") || process.env.STACKOVERFLOW_CLIENT_ID;
+  const apiKey = option(args, "--key") || process.env.STACKOVERFLOW_API_KEY;
+  const port = Number(option(args, "--port") || DEFAULT_CALLBACK_PORT);
+  const clientSecret =
+    process.env.STACKOVERFLOW_CLIENT_SECRET ||
+    (clientId && process.stdin.isTTY ? await promptSecret("Client secret: ") : undefined);
+  if (!clientId || !clientSecret || isNaN(port)) {
+    console.error(
+      "auth login needs the client id and secret of a Stack Apps application (--client-id or STACKOVERFLOW_CLIENT_ID, and STACKOVERFLOW_CLIENT_SECRET or the prompt)"
+    );
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const state = randomBytes(16).toString("hex");
+  const listener = await listenForCallback(port, state, LOGIN_TIMEOUT_MS);
+  const url = buildAuthorizeUrl(clientId, listener.redirectUri, state);
+  console.error(`Open this URL to authorize stackoverflow-mcp (${OAUTH_SCOPES.join(", ")}):\n\n  ${url}\n`);
+  openBrowser(url);
+
+  const code = await listener.code;
+  const token = await exchangeCode({
+    clientId,
+    clientSecret,
+    code,
+    redirectUri: listener.redirectUri,
+  });
+
+  const path = credentialsPath(process.env);
+  saveCredentials(path, {
+    accessToken: token.accessToken,
+    ...(apiKey && { apiKey }),
+    scope: OAUTH_SCOPES,
+    ...(token.expiresAt && { expiresAt: token.expiresAt }),
+    createdAt: Date.now(),
+  });
+  console.error(`Logged in. Token stored in ${path}`);
+  if (!apiKey) {
+    console.error("Write tools also need STACKOVERFLOW_API_KEY (or log in again with --key)");
+  }
+}
+
+async function authStatus() {
+  const path = credentialsPath(process.env);
+  const stored = loadCredentials(path);
+  if (process.env.STACKOVERFLOW_ACCESS_TOKEN) {
+    console.error("STACKOVERFLOW_ACCESS_TOKEN is set and takes precedence over stored credentials");
+  }
+  if (!stored) {
+    console.error(`Not logged in (no valid token in ${path})`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.error(`Token: ${maskToken(stored.accessToken)} (${path})`);
+  console.error(`Scopes: ${stored.scope.join(", ")}`);
+  console.error(`Created: ${new Date(stored.createdAt).toISOString()}`);
+  console.error(
+    `Expires: ${stored.expiresAt ? new Date(stored.expiresAt).toISOString() : "never"}`
+  );
+  console.error(`API key: ${stored.apiKey ? "stored" : "not stored"}`);
+
+  try {
+    const info = await inspectToken(stored.accessToken, stored.apiKey);
+    if (info) {
+      console.error(`Valid for account ${info.accountId} with scopes ${info.scope.join(", ")}`);
+    } else {
+      console.error("The API does not recognize this token; run `stackoverflow-mcp auth login`");
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error(
+      `Could not verify the token: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+async function authLogout() {
+  const path = credentialsPath(process.env);
+  const stored = loadCredentials(path);
+  if (stored) {
+    try {
+      await invalidateToken(stored.accessToken, stored.apiKey);
+    } catch (error) {
+      console.error(
+        `Could not revoke the token, deleting it anyway: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+  deleteCredentials(path);
+  console.error(`Logged out. Removed ${path}`);
+}
+
+/**
+ * Runs a CLI subcommand if argv names one. Returns false when the server should start instead.
+ */
+export async function runCli(argv: string[]): Promise<boolean> {
+  const [command, subcommand, ...rest] = argv;
+
+  if (command === "offline" && subcommand === "import") {
+    await offlineImport(rest);
+    return true;
+  }
+  if (command === "auth" && subcommand === "login") {
+    await authLogin(rest);
+    return true;
+  }
+  if (command === "auth" && subcommand === "status") {
+    await authStatus();
+    return true;
+  }
+  if (command === "auth" && subcommand === "logout") {
+    await authLogout();
+    return true;
+  }
+  if (command === "--help" || command === "help") {
+    console.error(USAGE);
+    return true;
+  }
+  return false;
+}
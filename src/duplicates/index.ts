@@ -0,0 +1,83 @@
+import { DuplicateCandidate, StackOverflowQuestion } from "../types/index.js";
+import { extractKeyTerms, termCoverage } from "../query/index.js";
+import { decodeHtmlEntities } from "../markdown/index.js";
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.6;
+export const DUPLICATE_CANDIDATES = 10; // fetched from each source
+
+// The error signature weighs more: titles of the same problem are often worded differently
+const TITLE_WEIGHT = 0.4;
+const SIGNATURE_WEIGHT = 0.6;
+
+/**
+ * Reads STACKOVERFLOW_DUPLICATE_THRESHOLD, the score from which post_question refuses
+ */
+export function duplicateThresholdFromEnv(env: NodeJS.ProcessEnv): number {
+  const value = env.STACKOVERFLOW_DUPLICATE_THRESHOLD;
+  if (value === undefined || value.trim() === "") {
+    return DEFAULT_DUPLICATE_THRESHOLD;
+  }
+  const threshold = Number(value);
+  if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+    throw new Error(
+      `Invalid STACKOVERFLOW_DUPLICATE_THRESHOLD ${value}: expected a number above 0 and at most 1`
+    );
+  }
+  return threshold;
+}
+
+const terms = (text: string) => extractKeyTerms(text).map((term) => term.toLowerCase());
+
+/**
+ * Dice coefficient of the key terms of two titles
+ */
+function titleSimilarity(title: string, candidate: string): number {
+  const a = new Set(terms(title));
+  const b = new Set(terms(decodeHtmlEntities(candidate)));
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  const shared = [...a].filter((term) => b.has(term)).length;
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Share of the signature's key terms in the candidate; a term only in the body counts half
+ */
+function signatureSimilarity(signature: string, question: StackOverflowQuestion): number {
+  return termCoverage(terms(signature), question);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Scores candidate questions against a new question's title and error signature,
+ * best match first. Candidates found by several searches are scored once.
+ */
+export function scoreDuplicates(
+  title: string,
+  errorSignature: string,
+  candidates: StackOverflowQuestion[]
+): DuplicateCandidate[] {
+  const unique = new Map(candidates.map((question) => [question.question_id, question]));
+  return [...unique.values()]
+    .map((question) => {
+      const titleScore = titleSimilarity(title, question.title);
+      const signatureScore = signatureSimilarity(errorSignature, question);
+      return {
+        questionId: question.question_id,
+        title: decodeHtmlEntities(question.title),
+        link: question.link,
+        score: round(TITLE_WEIGHT * titleScore + SIGNATURE_WEIGHT * signatureScore),
+        titleScore: round(titleScore),
+        signatureScore: round(signatureScore),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+export function formatDuplicates(candidates: DuplicateCandidate[]): string {
+  return candidates
+    .map((candidate) => `- ${candidate.score.toFixed(2)} ${candidate.title} (${candidate.link})`)
+    .join("\n");
+}
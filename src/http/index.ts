@@ -0,0 +1,144 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import type { Server as HttpServer } from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { HttpTransportOptions } from "../types/index.js";
+
+const SSE_PATH = "/sse";
+const MESSAGE_PATH = "/messages";
+
+interface Session {
+  server: Server;
+  transport: SSEServerTransport;
+}
+
+/**
+ * Returns true if the request carries the expected bearer token (or if no token is configured)
+ */
+export function isAuthorized(
+  req: IncomingMessage,
+  authToken?: string
+): boolean {
+  if (!authToken) {
+    return true;
+  }
+
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const provided = Buffer.from(header.slice("Bearer ".length).trim());
+  const expected = Buffer.from(authToken);
+  return (
+    provided.length === expected.length && timingSafeEqual(provided, expected)
+  );
+}
+
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+// Sessions of each running transport, so closeHttpTransport can end them
+const openSessions = new WeakMap<HttpServer, Map<string, Session>>();
+
+/**
+ * Starts an HTTP server exposing the MCP server over SSE.
+ *
+ * Every GET on /sse opens a new session with its own MCP server instance, created
+ * by `createMcpServer`. Clients then POST JSON-RPC messages to /messages?sessionId=...
+ */
+export async function startHttpTransport(
+  createMcpServer: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpServer> {
+  if (!options.authToken && !isLoopback(options.host)) {
+    throw new Error(
+      "STACKOVERFLOW_MCP_AUTH_TOKEN is required when binding to a non-loopback host"
+    );
+  }
+
+  const sessions = new Map<string, Session>();
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    if (req.method === "GET" && url.pathname === "/health") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: "ok", sessions: sessions.size }));
+      return;
+    }
+
+    if (!isAuthorized(req, options.authToken)) {
+      res.writeHead(401, { "WWW-Authenticate": "Bearer" }).end("Unauthorized");
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === SSE_PATH) {
+      const transport = new SSEServerTransport(MESSAGE_PATH, res);
+      const server = createMcpServer();
+      sessions.set(transport.sessionId, { server, transport });
+
+      // connect() takes over transport.onclose, so chain onto the server's handler instead
+      const onclose = server.onclose;
+      server.onclose = () => {
+        sessions.delete(transport.sessionId);
+        onclose?.();
+      };
+
+      await server.connect(transport);
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === MESSAGE_PATH) {
+      const sessionId = url.searchParams.get("sessionId");
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+      if (!session) {
+        res.writeHead(404).end("Unknown session");
+        return;
+      }
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    res.writeHead(404).end("Not found");
+  };
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      console.error("[HTTP Error]", error);
+      if (!res.headersSent) {
+        res.writeHead(500).end("Internal server error");
+      }
+    });
+  });
+
+  openSessions.set(httpServer, sessions);
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
+
+/**
+ * Closes every session, then the HTTP server. SSE streams stay open until their
+ * session is closed, so closing the HTTP server alone would wait for every client.
+ */
+export async function closeHttpTransport(httpServer: HttpServer): Promise<void> {
+  const sessions = openSessions.get(httpServer);
+  if (sessions) {
+    await Promise.all(
+      [...sessions.values()].map(({ server }) => server.close().catch(console.error))
+    );
+    sessions.clear();
+  }
+  httpServer.closeAllConnections();
+  await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+}
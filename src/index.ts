@@ -1,11 +1,20 @@
 #!/usr/bin/env node
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { Server as HttpServer } from "node:http";
+import { createHash, randomBytes } from "node:crypto";
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import {
   SearchByErrorInput,
@@ -18,30 +27,293 @@ import {
   SearchResultComments,
   ApiErrorResponse,
   PostQuestionInput,
+  DuplicateCandidate,
   PostSolutionInput,
   ThumbsUpInput,
   CommentSolutionInput,
+  EditPostInput,
+  DeletePostInput,
+  AcceptAnswerInput,
+  UndoVoteInput,
+  DownvoteInput,
+  FlagPostInput,
+  FlagOption,
+  StackExchangePost,
+  TransportMode,
+  CacheEndpoint,
+  CacheMode,
+  ApiWrapper,
+  QuotaInfo,
+  FetchOptions,
+  ListSitesInput,
+  GetQuestionInput,
+  ParsedStackTrace,
+  QueryTier,
+  QueryTierName,
+  RedactionFinding,
+  WriteToolName,
+  WriteInput,
+  PendingConfirmation,
+  ConfirmActionInput,
+  AuditEntry,
+  AuditRecord,
+  AccountInfo,
+  StackExchangeUser,
+  StackExchangePrivilege,
+  WhoamiInput,
+  ListAuditLogInput,
+  PageInfo,
+  Pagination,
+  SearchFilters,
+  RankedResult,
+  RankingContext,
+  RankingWeights,
+  StackFrame,
+  StackExchangeSite,
+  BackendMode,
+  BodyFormat,
+  ResourceRef,
+  RecentResource,
 } from "./types/index.js";
+import { closeHttpTransport, startHttpTransport } from "./http/index.js";
+import { ResponseCache, cacheKey, ttlsFromEnv } from "./cache/index.js";
+import { OfflineIndex } from "./offline/index.js";
+import { AuditLog, DEFAULT_AUDIT_LOG } from "./audit/index.js";
+import { inspectToken, resolveAuth } from "./auth/index.js";
+import { TOOL_PRIVILEGES, missingPrivilege } from "./privileges/index.js";
+import {
+  DUPLICATE_CANDIDATES,
+  duplicateThresholdFromEnv,
+  formatDuplicates,
+  scoreDuplicates,
+} from "./duplicates/index.js";
+import {
+  explainRanking,
+  formatRankingExplanation,
+  rankResults,
+  rankingWeightsFromEnv,
+} from "./ranking/index.js";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  encodeCursor,
+  resolveLimit,
+  resolvePage,
+} from "./pagination/index.js";
+import { convertBody, decodeHtmlEntities } from "./markdown/index.js";
+import { DEFAULT_OFFLINE_INDEX, runCli } from "./cli/index.js";
+import {
+  RESOURCE_TEMPLATES,
+  parsePostReference,
+  parseResourceUri,
+  resourceUri,
+} from "./resources/index.js";
+import { PROMPTS, renderPrompt } from "./prompts/index.js";
+import { buildTraceQueries, parseStackTrace } from "./stacktrace/index.js";
+import {
+  SEARCH_SORTS,
+  TEXT_FILTERS,
+  buildQueryTiers,
+  extractKeyTerms,
+  needsAdvancedSearch,
+  pickSearchFilters,
+  searchFilterParams,
+} from "./query/index.js";
+import { Redactor, describeFindings, mergeFindings, redactionFromEnv } from "./redaction/index.js";
 
 const STACKOVERFLOW_API = "https://api.stackexchange.com/2.3";
+const DEFAULT_SITE = "stackoverflow";
 // Default custom filter that includes bodies, scores, and other essential fields
 const DEFAULT_FILTER = "!*MZqiDl8Y0c)yVzXS"; // Custom filter for questions with bodies
 const ANSWER_FILTER = "!*MZqiDl8Y0c)yVzXS"; // Custom filter for answers with bodies
 const COMMENT_FILTER = "!*Mg-gxeRLu"; // Custom filter for comments
+const SITE_FILTER = "default"; // Site name, url, type and api_site_parameter
+const MAX_REPORTED_DUPLICATES = 5; // candidates listed in a refusal or preview
 
 // Rate limiting configuration
 const MAX_REQUESTS_PER_WINDOW = 30; // Maximum requests per window
 const RATE_LIMIT_WINDOW_MS = 60000; // Window size in milliseconds (1 minute)
 const RETRY_AFTER_MS = 2000; // Time to wait before retrying after rate limit
 
+// Stack Exchange throttling
+const THROTTLE_VIOLATION = 502; // error_id returned when a client is throttled
+const MAX_THROTTLE_WAIT_MS = 60000; // Longer throttles fail fast instead of blocking the tool call
+
+// STACKOVERFLOW_BACKEND values
+const BACKEND_MODES: BackendMode[] = ["online", "offline", "fallback"];
+
+// Number of recently viewed or posted items listed as resources
+const MAX_RECENT_RESOURCES = 50;
+
+// Two-phase publishing
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// How long /me and /me/privileges are reused by the write preflight
+const ACCOUNT_TTL_MS = 15 * 60 * 1000;
+const CONFIRMATION_TOKEN_BYTES = 9; // 12 base64url characters
+
+// search_by_error stops at the first query tier returning at least this many results
+const DEFAULT_MIN_RESULTS = 1;
+
+// Vectorized endpoints accept up to 100 semicolon-delimited ids
+const MAX_IDS_PER_REQUEST = 100;
+
+// Sort, date range and /search/advanced filters of the search tools
+const SEARCH_FILTER_PROPERTIES = {
+  sort: {
+    type: "string",
+    enum: SEARCH_SORTS,
+    description:
+      "Result order. By default results are fetched by votes and re-ranked by relevance; an explicit sort keeps the API order. Use creation or activity to favour recent posts for recent framework versions",
+  },
+  fromDate: {
+    type: "string",
+    description: "Only questions created on or after this ISO date (YYYY-MM-DD) or timestamp",
+  },
+  toDate: {
+    type: "string",
+    description: "Only questions created on or before this ISO date or timestamp",
+  },
+  accepted: { type: "boolean", description: "Only questions with (true) or without (false) an accepted answer" },
+  answers: { type: "number", minimum: 0, description: "Minimum number of answers" },
+  closed: { type: "boolean", description: "Only closed (true) or open (false) questions" },
+  migrated: { type: "boolean", description: "Only migrated (true) or not migrated (false) questions" },
+  notice: { type: "boolean", description: "Only questions with (true) or without (false) a post notice" },
+  views: { type: "number", minimum: 0, description: "Minimum number of views" },
+  title: { type: "string", description: "Text the title must contain" },
+  body: { type: "string", description: "Text the body must contain" },
+  url: { type: "string", description: "URL the question must contain" },
+  user: { type: "number", description: "Only questions asked by this user id" },
+  nottagged: {
+    type: "array",
+    items: { type: "string" },
+    description: "Exclude questions with any of these tags",
+  },
+  wiki: { type: "boolean", description: "Only community wiki (true) or regular (false) questions" },
+};
+
+// HTTP transport defaults
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+const DEFAULT_HTTP_PORT = 3000;
+
+/**
+ * Maps a concrete API path to its method, e.g. /questions/1;2/answers -> /questions/{ids}/answers.
+ * The API reports `backoff` per method, not per URL.
+ */
+function apiMethodOf(path: string): string {
+  return path.replace(/\/[\d;]+(?=\/|$)/g, "/{ids}");
+}
+
+function nextUtcMidnight(timestamp: number): number {
+  const date = new Date(timestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * Accepted answer first, then the rest by votes
+ */
+function sortAnswers(answers: StackOverflowAnswer[]): StackOverflowAnswer[] {
+  return [...answers].sort(
+    (a, b) => Number(b.is_accepted) - Number(a.is_accepted) || b.score - a.score
+  );
+}
+
+/**
+ * Hash of what a write would publish; credentials are left out so the token
+ * binds the content, not the caller
+ */
+function hashPayload(path: string, params: URLSearchParams): string {
+  const fields = [...params]
+    .filter(([name]) => name !== "key" && name !== "access_token")
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return createHash("sha256").update(JSON.stringify([path, fields])).digest("hex");
+}
+
+/**
+ * Flag options with their sub-options (e.g. the close reasons) in one list
+ */
+function flattenFlagOptions(options: FlagOption[]): FlagOption[] {
+  return options.flatMap((option) => [option, ...flattenFlagOptions(option.sub_options || [])]);
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => number): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+  return groups;
+}
+
 export class StackOverflowServer {
-  private server: Server;
+  private server?: Server; // stdio only; the HTTP transport creates one per session
+  private httpServer?: HttpServer;
   private apiKey?: string;
   private accessToken?: string;
+  private requireConfirmation: boolean; // writes need a second call presenting a confirmation token
+  private pendingConfirmations = new Map<string, PendingConfirmation>(); // token -> write awaiting confirmation
+  private defaultSite: string;
+  private backend: BackendMode;
+  private offlineIndexPath: string;
+  private offlineIndex?: Promise<OfflineIndex>;
+  private sessions = new Set<Server>(); // Every MCP server instance, one per connection
+  private subscriptions = new Map<Server, Set<string>>(); // Resource URIs each session subscribed to
+  private recentResources: RecentResource[] = [];
+  private searchPages = new WeakMap<SearchResult[], PageInfo>(); // pagination of arrays returned by the search helpers
+  private cache: ResponseCache;
+  private redactor: Redactor;
+  private dryRun: boolean; // default for write tools that do not pass dryRun
+  private rankingWeights: RankingWeights;
+  private duplicateThreshold: number;
+  private auditLog: AuditLog;
   private requestTimestamps: number[] = []; // Track request timestamps for rate limiting
+  private backoffUntil = new Map<string, number>(); // API method -> time its backoff expires
+  private quota?: QuotaInfo; // Quota reported by the most recent API response
+  private accounts = new Map<string, { account: AccountInfo; expiresAt: number }>(); // site -> account behind the token
 
   constructor() {
-    this.server = new Server(
+    // Read optional auth from environment, falling back to `auth login` credentials
+    const auth = resolveAuth(process.env);
+    this.apiKey = auth.apiKey;
+    this.accessToken = auth.accessToken;
+    this.requireConfirmation = process.env.STACKOVERFLOW_REQUIRE_CONFIRMATION !== "false";
+    this.defaultSite = process.env.STACKOVERFLOW_SITE || DEFAULT_SITE;
+    const backend = (process.env.STACKOVERFLOW_BACKEND || "online") as BackendMode;
+    if (!BACKEND_MODES.includes(backend)) {
+      throw new Error(`Unknown STACKOVERFLOW_BACKEND: ${backend}`);
+    }
+    this.backend = backend;
+    this.offlineIndexPath =
+      process.env.STACKOVERFLOW_OFFLINE_INDEX || DEFAULT_OFFLINE_INDEX;
+
+    this.cache = new ResponseCache({
+      dir: process.env.STACKOVERFLOW_CACHE_DIR,
+      ttls: ttlsFromEnv(process.env),
+    });
+
+    this.redactor = new Redactor(redactionFromEnv(process.env));
+    this.dryRun = process.env.STACKOVERFLOW_DRY_RUN === "true";
+    this.rankingWeights = rankingWeightsFromEnv(process.env);
+    this.duplicateThreshold = duplicateThresholdFromEnv(process.env);
+    this.auditLog = new AuditLog(process.env.STACKOVERFLOW_AUDIT_LOG || DEFAULT_AUDIT_LOG);
+
+    this.setupErrorHandling();
+  }
+
+  /**
+   * Creates an MCP server instance with all handlers registered.
+   * stdio uses a single instance; the HTTP transport creates one per session.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: "stackoverflow-mcp",
         version: "0.1.0",
@@ -49,32 +321,41 @@ export class StackOverflowServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true, listChanged: true },
+          prompts: {},
         },
       }
     );
+    server.onerror = (error) => console.error("[MCP Error]", error);
+    server.onclose = () => {
+      this.sessions.delete(server);
+      this.subscriptions.delete(server);
+    };
+    this.sessions.add(server);
 
-    // Read optional auth from environment
-    this.apiKey = process.env.STACKOVERFLOW_API_KEY;
-    this.accessToken = process.env.STACKOVERFLOW_ACCESS_TOKEN;
-
-    this.setupTools();
-    this.setupErrorHandling();
+    this.setupTools(server);
+    this.setupResources(server);
+    this.setupPrompts(server);
+    return server;
   }
 
   private setupErrorHandling() {
-    this.server.onerror = (error) => console.error("[MCP Error]", error);
     process.on("SIGINT", async () => {
-      await this.server.close();
+      if (this.httpServer) {
+        await closeHttpTransport(this.httpServer);
+      }
+      await this.server?.close();
       process.exit(0);
     });
   }
 
-  private setupTools() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  private setupTools(server: Server) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         {
           name: "search_by_error",
-          description: "Search Stack Overflow for error-related questions",
+          description:
+            "Search Stack Overflow for error-related questions. Paths, line numbers, addresses, ids and timestamps are generalized when the exact message finds nothing",
           inputSchema: {
             type: "object",
             properties: {
@@ -104,10 +385,54 @@ export class StackOverflowServer {
                 enum: ["json", "markdown"],
                 description: "Response format",
               },
+              bodyFormat: {
+                type: "string",
+                enum: ["html", "markdown", "text"],
+                description:
+                  "Format of question, answer and comment bodies in JSON output (default: html). Markdown output always uses markdown",
+              },
               limit: {
                 type: "number",
-                description: "Maximum number of results",
+                minimum: 1,
+                description: "Results per page (default: 30, at most 100; larger limits are clamped)",
+              },
+              cacheMode: {
+                type: "string",
+                enum: ["default", "bypass", "purge"],
+                description:
+                  "Response cache behaviour: bypass fetches fresh results, purge clears the whole cache first",
+              },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+              sites: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  "Federated search: query several sites and merge the results, labelling each with its site",
+              },
+              minResults: {
+                type: "number",
+                description:
+                  "Results needed before the search stops relaxing the query (exact phrase, normalized message, key terms with tags, key terms alone). Default 1",
+              },
+              page: {
+                type: "number",
+                minimum: 1,
+                description: "Page of `limit` results to return (default: 1)",
+              },
+              cursor: {
+                type: "string",
+                description: "nextCursor from a previous response, to get the following page",
+              },
+              explain: {
+                type: "boolean",
+                description:
+                  "Report why each result ranked where it did: its relevance signals, weights and score",
               },
+              ...SEARCH_FILTER_PROPERTIES,
             },
             required: ["errorMessage"],
           },
@@ -136,17 +461,57 @@ export class StackOverflowServer {
                 enum: ["json", "markdown"],
                 description: "Response format",
               },
+              bodyFormat: {
+                type: "string",
+                enum: ["html", "markdown", "text"],
+                description:
+                  "Format of question, answer and comment bodies in JSON output (default: html). Markdown output always uses markdown",
+              },
               limit: {
                 type: "number",
-                description: "Maximum number of results",
+                minimum: 1,
+                description: "Results per page (default: 30, at most 100; larger limits are clamped)",
+              },
+              cacheMode: {
+                type: "string",
+                enum: ["default", "bypass", "purge"],
+                description:
+                  "Response cache behaviour: bypass fetches fresh results, purge clears the whole cache first",
+              },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+              sites: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                  "Federated search: query several sites and merge the results, labelling each with its site",
+              },
+              page: {
+                type: "number",
+                minimum: 1,
+                description: "Page of `limit` results to return (default: 1)",
               },
+              cursor: {
+                type: "string",
+                description: "nextCursor from a previous response, to get the following page",
+              },
+              explain: {
+                type: "boolean",
+                description:
+                  "Report why each result ranked where it did: its relevance signals, weights and score",
+              },
+              ...SEARCH_FILTER_PROPERTIES,
             },
             required: ["tags"],
           },
         },
         {
           name: "analyze_stack_trace",
-          description: "Analyze stack trace and find relevant solutions",
+          description:
+            "Analyze a stack trace (Python, Java, JavaScript, Go, .NET, Rust) and find solutions for its root cause",
           inputSchema: {
             type: "object",
             properties: {
@@ -167,9 +532,32 @@ export class StackOverflowServer {
                 enum: ["json", "markdown"],
                 description: "Response format",
               },
+              bodyFormat: {
+                type: "string",
+                enum: ["html", "markdown", "text"],
+                description:
+                  "Format of question, answer and comment bodies in JSON output (default: html). Markdown output always uses markdown",
+              },
               limit: {
                 type: "number",
-                description: "Maximum number of results",
+                minimum: 1,
+                description: "Maximum number of results (at most 100; larger limits are clamped)",
+              },
+              cacheMode: {
+                type: "string",
+                enum: ["default", "bypass", "purge"],
+                description:
+                  "Response cache behaviour: bypass fetches fresh results, purge clears the whole cache first",
+              },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+              explain: {
+                type: "boolean",
+                description:
+                  "Report why each result ranked where it did: its relevance signals, weights and score",
               },
             },
             required: ["stackTrace", "language"],
@@ -178,7 +566,7 @@ export class StackOverflowServer {
         {
           name: "post_question",
           description:
-            "STRICT: Create a new Stack Overflow question ONLY if no remotely similar error exists AND ONLY after at least 3 distinct attempted fixes. Must include exactly what was tried.",
+            "STRICT: Create a new Stack Overflow question ONLY if no remotely similar error exists AND ONLY after at least 3 distinct attempted fixes. Must include exactly what was tried. Refused when an existing question is too similar to the title and errorSignature; the refusal lists the likely duplicates to check instead.",
           inputSchema: {
             type: "object",
             properties: {
@@ -205,6 +593,21 @@ export class StackOverflowServer {
                 description:
                   "At least 3 distinct approaches already attempted, each described",
               },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "Run every policy check and return the exact request and a preview without sending it",
+              },
+              confirmationToken: {
+                type: "string",
+                description:
+                  "Token returned by the first call; publishes the previewed payload (same as confirm_action)",
+              },
             },
             required: [
               "title",
@@ -240,6 +643,21 @@ export class StackOverflowServer {
                 description:
                   "Evidence references: passing tests, logs, repo links, repro cases",
               },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "Run every policy check and return the exact request and a preview without sending it",
+              },
+              confirmationToken: {
+                type: "string",
+                description:
+                  "Token returned by the first call; publishes the previewed payload (same as confirm_action)",
+              },
             },
             required: ["questionId", "body", "confirmedResolved", "evidence"],
           },
@@ -260,6 +678,21 @@ export class StackOverflowServer {
                 description:
                   "Must be true only if the solution actually fixed the issue",
               },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "Run every policy check and return the exact request and a preview without sending it",
+              },
+              confirmationToken: {
+                type: "string",
+                description:
+                  "Token returned by the first call; publishes the previewed payload (same as confirm_action)",
+              },
             },
             required: ["postId", "confirmedFixed"],
           },
@@ -280,467 +713,2439 @@ export class StackOverflowServer {
                 description:
                   "Concise, constructive comment with additional context or findings",
               },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "Run every policy check and return the exact request and a preview without sending it",
+              },
+              confirmationToken: {
+                type: "string",
+                description:
+                  "Token returned by the first call; publishes the previewed payload (same as confirm_action)",
+              },
             },
             required: ["questionId", "body"],
           },
         },
-      ],
-    }));
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      if (!args) {
-        throw new McpError(ErrorCode.InvalidParams, "Arguments are required");
-      }
-
-      switch (name) {
-        case "search_by_error": {
-          const input = args as unknown as SearchByErrorInput;
-          if (!input.errorMessage) {
-            throw new McpError(
-              ErrorCode.InvalidParams,
-              "errorMessage is required"
-            );
-          }
-          return this.handleSearchByError(input);
-        }
-        case "search_by_tags": {
-          const input = args as unknown as SearchByTagsInput;
-          if (!input.tags) {
-            throw new McpError(ErrorCode.InvalidParams, "tags are required");
-          }
-          return this.handleSearchByTags(input);
-        }
-        case "analyze_stack_trace": {
-          const input = args as unknown as StackTraceInput;
-          if (!input.stackTrace || !input.language) {
-            throw new McpError(
-              ErrorCode.InvalidParams,
-              "stackTrace and language are required"
-            );
-          }
-          return this.handleAnalyzeStackTrace(input);
-        }
-        case "post_question": {
-          const input = args as unknown as PostQuestionInput;
-          if (!input.title || !input.body || !input.errorSignature || !input.tags || !input.triedApproaches) {
-            throw new McpError(ErrorCode.InvalidParams, "title, body, tags, errorSignature, triedApproaches are required");
-          }
-          if (!Array.isArray(input.triedApproaches) || input.triedApproaches.length < 3) {
-            throw new McpError(ErrorCode.InvalidParams, "At least 3 triedApproaches are required");
-          }
-          return this.handlePostQuestion(input);
-        }
-        case "post_solution": {
-          const input = args as unknown as PostSolutionInput;
-          if (!input.questionId || !input.body) {
-            throw new McpError(ErrorCode.InvalidParams, "questionId and body are required");
-          }
-          return this.handlePostSolution(input);
-        }
-        case "thumbs_up": {
-          const input = args as unknown as ThumbsUpInput;
-          if (!input.postId) {
-            throw new McpError(ErrorCode.InvalidParams, "postId is required");
-          }
-          return this.handleThumbsUp(input);
-        }
-        case "comment_solution": {
-          const input = args as unknown as CommentSolutionInput;
-          if (!input.questionId || !input.body) {
-            throw new McpError(ErrorCode.InvalidParams, "questionId and body are required");
-          }
-          return this.handleCommentSolution(input);
-        }
-        default:
-          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-      }
-    });
-  }
-
-  private checkRateLimit(): boolean {
-    const now = Date.now();
-    // Remove timestamps outside the window
-    this.requestTimestamps = this.requestTimestamps.filter(
-      (timestamp) => now - timestamp < RATE_LIMIT_WINDOW_MS
-    );
-
-    if (this.requestTimestamps.length >= MAX_REQUESTS_PER_WINDOW) {
-      return false;
-    }
-
-    this.requestTimestamps.push(now);
-    return true;
-  }
-
-  private async withRateLimit<T>(
-    fn: () => Promise<T>,
-    retries = 3
-  ): Promise<T> {
-    if (!this.checkRateLimit()) {
-      // Exceeded rate limit, wait before retrying
-      console.warn("Rate limit exceeded, waiting before retry...");
-      await new Promise((resolve) => setTimeout(resolve, RETRY_AFTER_MS));
-      return this.withRateLimit(fn, retries);
-    }
-
-    try {
-      return await fn();
-    } catch (error) {
-      if (
-        retries > 0 &&
-        ((error instanceof Error && error.message.includes("429")) ||
-          (typeof error === "object" &&
-            error !== null &&
-            "status" in error &&
-            error.status === 429))
-      ) {
-        console.warn("Rate limit hit (429), retrying after delay...");
-        await new Promise((resolve) => setTimeout(resolve, RETRY_AFTER_MS));
-        return this.withRateLimit(fn, retries - 1);
-      }
-      throw error;
-    }
-  }
-
-  private async searchStackOverflow(
-    query: string,
-    tags?: string[],
-    options: {
-      minScore?: number;
-      limit?: number;
-      includeComments?: boolean;
-    } = {}
-  ): Promise<SearchResult[]> {
-    const params = new URLSearchParams({
-      site: "stackoverflow",
-      sort: "votes",
-      order: "desc",
-      filter: DEFAULT_FILTER,
-      q: query,
-      ...(tags && { tagged: tags.join(";") }),
-      ...(options.limit && { pagesize: options.limit.toString() }),
-    });
-
-    if (this.apiKey) {
-      params.append("key", this.apiKey);
+        {
+          name: "edit_post",
+          description:
+            "Edit a question or answer the authenticated user posted, e.g. to fix a mistake or add the fix that finally worked. Refused for other users' posts",
+          inputSchema: {
+            type: "object",
+            properties: {
+              postId: {
+                type: "number",
+                description: "Question or answer ID",
+              },
+              body: {
+                type: "string",
+                description: "Full new markdown body",
+              },
+              title: {
+                type: "string",
+                description: "New title (questions only; defaults to the current one)",
+              },
+              tags: {
+                type: "array",
+                items: { type: "string" },
+                description: "New tags, up to 5 (questions only; defaults to the current ones)",
+              },
+              comment: {
+                type: "string",
+                description: "Edit summary shown in the revision history",
+              },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "Run every policy check and return the exact request and a preview without sending it",
+              },
+              confirmationToken: {
+                type: "string",
+                description:
+                  "Token returned by the first call; publishes the previewed payload (same as confirm_action)",
+              },
+            },
+            required: ["postId", "body", "comment"],
+          },
+        },
+        {
+          name: "delete_post",
+          description:
+            "Delete a question or answer the authenticated user posted, to retract it. Refused for other users' posts, accepted answers and questions with upvoted or accepted answers",
+          inputSchema: {
+            type: "object",
+            properties: {
+              postId: {
+                type: "number",
+                description: "Question or answer ID",
+              },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "Run every policy check and return the exact request and a preview without sending it",
+              },
+              confirmationToken: {
+                type: "string",
+                description:
+                  "Token returned by the first call; publishes the previewed payload (same as confirm_action)",
+              },
+            },
+            required: ["postId"],
+          },
+        },
+        {
+          name: "accept_answer",
+          description:
+            "STRICT: Accept an answer on a question the authenticated user asked ONLY when it demonstrably fixed the issue. Set undo to withdraw the acceptance",
+          inputSchema: {
+            type: "object",
+            properties: {
+              questionId: {
+                type: "number",
+                description: "Question ID, asked by the authenticated user",
+              },
+              answerId: {
+                type: "number",
+                description: "ID of an answer to that question",
+              },
+              confirmedFixed: {
+                type: "boolean",
+                description:
+                  "Required unless undo is set. Must be true to accept: the answer fixed the issue",
+              },
+              undo: {
+                type: "boolean",
+                description: "Withdraw the acceptance of this answer instead",
+              },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "Run every policy check and return the exact request and a preview without sending it",
+              },
+              confirmationToken: {
+                type: "string",
+                description:
+                  "Token returned by the first call; publishes the previewed payload (same as confirm_action)",
+              },
+            },
+            required: ["questionId", "answerId"],
+          },
+        },
+        {
+          name: "undo_vote",
+          description:
+            "STRICT: Withdraw a vote ONLY when it was given by mistake; state why",
+          inputSchema: {
+            type: "object",
+            properties: {
+              postId: {
+                type: "number",
+                description: "Question or answer ID",
+              },
+              vote: {
+                type: "string",
+                enum: ["upvote", "downvote"],
+                description: "Vote to withdraw (default: upvote)",
+              },
+              confirmedMistake: {
+                type: "boolean",
+                description: "Must be true: the vote was given by mistake",
+              },
+              reason: {
+                type: "string",
+                description: "Why the vote was a mistake",
+              },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "Run every policy check and return the exact request and a preview without sending it",
+              },
+              confirmationToken: {
+                type: "string",
+                description:
+                  "Token returned by the first call; publishes the previewed payload (same as confirm_action)",
+              },
+            },
+            required: ["postId", "confirmedMistake", "reason"],
+          },
+        },
+        {
+          name: "downvote",
+          description:
+            "STRICT: Downvote an answer ONLY when it was verified to be wrong or harmful, with evidence. Never for answers that merely did not help",
+          inputSchema: {
+            type: "object",
+            properties: {
+              answerId: {
+                type: "number",
+                description: "Answer ID (questions cannot be downvoted with this tool)",
+              },
+              verifiedWrong: {
+                type: "boolean",
+                description: "Must be true: the answer was verified to be wrong or harmful",
+              },
+              evidence: {
+                type: "array",
+                items: { type: "string" },
+                description: "What showed it: failing tests, logs, documentation, reproduction",
+              },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "Run every policy check and return the exact request and a preview without sending it",
+              },
+              confirmationToken: {
+                type: "string",
+                description:
+                  "Token returned by the first call; publishes the previewed payload (same as confirm_action)",
+              },
+            },
+            required: ["answerId", "verifiedWrong", "evidence"],
+          },
+        },
+        {
+          name: "flag_post",
+          description:
+            "STRICT: Flag a post for moderator or community attention (spam, rude, needs improvement, ...) ONLY with a reason and evidence. Call without optionId first to list the flag options for the post",
+          inputSchema: {
+            type: "object",
+            properties: {
+              postId: {
+                type: "number",
+                description: "Question or answer ID",
+              },
+              optionId: {
+                type: "number",
+                description: "Flag option from the listing; omit to list the options and flag nothing",
+              },
+              comment: {
+                type: "string",
+                description: "Flag comment, required by options that ask for one",
+              },
+              reason: {
+                type: "string",
+                description: "Why the post needs attention",
+              },
+              evidence: {
+                type: "array",
+                items: { type: "string" },
+                description: "What shows it: links, quotes, reproduction",
+              },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "Run every policy check and return the exact request and a preview without sending it",
+              },
+              confirmationToken: {
+                type: "string",
+                description:
+                  "Token returned by the first call; publishes the previewed payload (same as confirm_action)",
+              },
+            },
+            required: ["postId", "reason", "evidence"],
+          },
+        },
+        {
+          name: "confirm_action",
+          description:
+            "Publish a write previewed by post_question, post_solution, thumbs_up, comment_solution, edit_post, delete_post, accept_answer, undo_vote, downvote or flag_post. Only call after the user approved the preview. Tokens are single use and expire after 5 minutes",
+          inputSchema: {
+            type: "object",
+            properties: {
+              token: {
+                type: "string",
+                description: "confirmationToken returned by the write tool",
+              },
+            },
+            required: ["token"],
+          },
+        },
+        {
+          name: "list_audit_log",
+          description:
+            "List recorded write attempts (posted, refused, failed, dry runs and pending confirmations), newest first",
+          inputSchema: {
+            type: "object",
+            properties: {
+              from: {
+                type: "string",
+                description: "Earliest entry, ISO date or timestamp (inclusive)",
+              },
+              to: {
+                type: "string",
+                description: "Latest entry, ISO date (whole day included) or timestamp (inclusive)",
+              },
+              outcome: {
+                type: "string",
+                enum: ["posted", "refused", "failed", "dry_run", "pending_confirmation"],
+                description: "Only entries with this outcome",
+              },
+              tool: {
+                type: "string",
+                enum: [
+                  "post_question",
+                  "post_solution",
+                  "thumbs_up",
+                  "comment_solution",
+                  "edit_post",
+                  "delete_post",
+                  "accept_answer",
+                  "undo_vote",
+                  "downvote",
+                  "flag_post",
+                ],
+                description: "Only entries for this write tool",
+              },
+              limit: {
+                type: "number",
+                minimum: 1,
+                description: "Maximum number of entries (default: 50)",
+              },
+            },
+          },
+        },
+        {
+          name: "whoami",
+          description:
+            "Show the account behind the access token: reputation, privileges, token scopes and which write tools it may use on the site",
+          inputSchema: {
+            type: "object",
+            properties: {
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter (e.g. serverfault, superuser, unix, dba, askubuntu). Defaults to the server's default site",
+              },
+            },
+          },
+        },
+        {
+          name: "list_sites",
+          description:
+            "List Stack Exchange sites and the api parameter to pass as `site` (e.g. serverfault, superuser, unix, dba, askubuntu)",
+          inputSchema: {
+            type: "object",
+            properties: {
+              query: {
+                type: "string",
+                description: "Filter sites by name or api parameter",
+              },
+              includeMeta: {
+                type: "boolean",
+                description: "Include meta sites",
+              },
+            },
+          },
+        },
+        {
+          name: "get_question",
+          description:
+            "Fetch full question threads by id or link: the question, all answers (accepted first, then by votes) and optionally comments",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: ["number", "string"],
+                description:
+                  "Question id, question or answer URL, or /q/{id} and /a/{id} short link. Answer links open the whole thread",
+              },
+              ids: {
+                type: "array",
+                items: { type: ["number", "string"] },
+                description: "Several question ids or links",
+              },
+              includeComments: {
+                type: "boolean",
+                description: "Include comments in results",
+              },
+              responseFormat: {
+                type: "string",
+                enum: ["json", "markdown"],
+                description: "Response format",
+              },
+              bodyFormat: {
+                type: "string",
+                enum: ["html", "markdown", "text"],
+                description:
+                  "Format of question, answer and comment bodies in JSON output (default: html). Markdown output always uses markdown",
+              },
+              cacheMode: {
+                type: "string",
+                enum: ["default", "bypass", "purge"],
+                description:
+                  "Response cache behaviour: bypass fetches fresh results, purge clears the whole cache first",
+              },
+              site: {
+                type: "string",
+                description:
+                  "Stack Exchange site api parameter for bare ids. Links use the site they point to",
+              },
+            },
+          },
+        },
+      ],
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name } = request.params;
+      // Some tools (list_sites, list_audit_log, whoami) take no required arguments
+      const args = request.params.arguments || {};
+
+      switch (name) {
+        case "search_by_error": {
+          const input = args as unknown as SearchByErrorInput;
+          if (!input.errorMessage) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              "errorMessage is required"
+            );
+          }
+          return this.handleSearchByError(input);
+        }
+        case "search_by_tags": {
+          const input = args as unknown as SearchByTagsInput;
+          if (!input.tags) {
+            throw new McpError(ErrorCode.InvalidParams, "tags are required");
+          }
+          return this.handleSearchByTags(input);
+        }
+        case "analyze_stack_trace": {
+          const input = args as unknown as StackTraceInput;
+          if (!input.stackTrace || !input.language) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              "stackTrace and language are required"
+            );
+          }
+          return this.handleAnalyzeStackTrace(input);
+        }
+        case "post_question": {
+          const input = args as unknown as PostQuestionInput;
+          if (!input.title || !input.body || !input.errorSignature || !input.tags || !input.triedApproaches) {
+            throw new McpError(ErrorCode.InvalidParams, "title, body, tags, errorSignature, triedApproaches are required");
+          }
+          return this.runWriteTool("post_question", input);
+        }
+        case "post_solution": {
+          const input = args as unknown as PostSolutionInput;
+          if (!input.questionId || !input.body) {
+            throw new McpError(ErrorCode.InvalidParams, "questionId and body are required");
+          }
+          return this.runWriteTool("post_solution", input);
+        }
+        case "thumbs_up": {
+          const input = args as unknown as ThumbsUpInput;
+          if (!input.postId) {
+            throw new McpError(ErrorCode.InvalidParams, "postId is required");
+          }
+          return this.runWriteTool("thumbs_up", input);
+        }
+        case "comment_solution": {
+          const input = args as unknown as CommentSolutionInput;
+          if (!input.questionId || !input.body) {
+            throw new McpError(ErrorCode.InvalidParams, "questionId and body are required");
+          }
+          return this.runWriteTool("comment_solution", input);
+        }
+        case "edit_post": {
+          const input = args as unknown as EditPostInput;
+          if (!input.postId || !input.body || !input.comment) {
+            throw new McpError(ErrorCode.InvalidParams, "postId, body and comment are required");
+          }
+          return this.runWriteTool("edit_post", input);
+        }
+        case "delete_post": {
+          const input = args as unknown as DeletePostInput;
+          if (!input.postId) {
+            throw new McpError(ErrorCode.InvalidParams, "postId is required");
+          }
+          return this.runWriteTool("delete_post", input);
+        }
+        case "accept_answer": {
+          const input = args as unknown as AcceptAnswerInput;
+          if (!input.questionId || !input.answerId) {
+            throw new McpError(ErrorCode.InvalidParams, "questionId and answerId are required");
+          }
+          return this.runWriteTool("accept_answer", input);
+        }
+        case "undo_vote": {
+          const input = args as unknown as UndoVoteInput;
+          if (!input.postId) {
+            throw new McpError(ErrorCode.InvalidParams, "postId is required");
+          }
+          return this.runWriteTool("undo_vote", input);
+        }
+        case "downvote": {
+          const input = args as unknown as DownvoteInput;
+          if (!input.answerId) {
+            throw new McpError(ErrorCode.InvalidParams, "answerId is required");
+          }
+          return this.runWriteTool("downvote", input);
+        }
+        case "flag_post": {
+          const input = args as unknown as FlagPostInput;
+          if (!input.postId) {
+            throw new McpError(ErrorCode.InvalidParams, "postId is required");
+          }
+          // Listing the options writes nothing, so it is not audited
+          if (input.optionId === undefined) {
+            return this.handleFlagOptions(input);
+          }
+          return this.runWriteTool("flag_post", input);
+        }
+        case "list_sites": {
+          const input = args as unknown as ListSitesInput;
+          return this.handleListSites(input);
+        }
+        case "confirm_action": {
+          const input = args as unknown as ConfirmActionInput;
+          if (!input.token) {
+            throw new McpError(ErrorCode.InvalidParams, "token is required");
+          }
+          return this.handleConfirmAction(input);
+        }
+        case "list_audit_log": {
+          const input = args as unknown as ListAuditLogInput;
+          return this.handleListAuditLog(input);
+        }
+        case "whoami": {
+          const input = args as unknown as WhoamiInput;
+          return this.handleWhoami(input);
+        }
+        case "get_question": {
+          const input = args as unknown as GetQuestionInput;
+          if (input.id === undefined && (!input.ids || input.ids.length === 0)) {
+            throw new McpError(ErrorCode.InvalidParams, "id or ids is required");
+          }
+          return this.handleGetQuestion(input);
+        }
+        default:
+          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+      }
+    });
+  }
+
+  private setupResources(server: Server) {
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: this.recentResources,
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const ref = parseResourceUri(request.params.uri);
+      if (!ref) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown resource: ${request.params.uri}`
+        );
+      }
+
+      const { name, text } = await this.readResource(ref);
+      const uri = resourceUri(ref, this.defaultSite);
+      this.rememberResource({ uri, name, mimeType: "text/markdown" });
+
+      return {
+        contents: [{ uri: request.params.uri, mimeType: "text/markdown", text }],
+      };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      if (!parseResourceUri(request.params.uri)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown resource: ${request.params.uri}`
+        );
+      }
+      const uris = this.subscriptions.get(server) || new Set<string>();
+      uris.add(request.params.uri);
+      this.subscriptions.set(server, uris);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.get(server)?.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  private setupPrompts(server: Server) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPTS,
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const prompt = PROMPTS.find((item) => item.name === name);
+      return {
+        description: prompt?.description,
+        messages: [
+          {
+            role: "user",
+            content: { type: "text", text: renderPrompt(name, args) },
+          },
+        ],
+      };
+    });
+  }
+
+  /**
+   * Renders a resource as Markdown using the same fetch helpers as the tools
+   */
+  private async readResource(ref: ResourceRef): Promise<{ name: string; text: string }> {
+    const options = { site: ref.site };
+
+    if (ref.kind === "question") {
+      const question = await this.fetchQuestion(ref.id, options);
+      if (!question) {
+        throw new McpError(ErrorCode.InvalidParams, `Question ${ref.id} not found`);
+      }
+      const [result] = await this.buildSearchResults([question], {
+        ...options,
+        includeComments: true,
+      });
+      result.answers = sortAnswers(result.answers);
+      return {
+        name: decodeHtmlEntities(question.title),
+        text: this.formatResponse([result], "markdown"),
+      };
+    }
+
+    if (ref.kind === "answer") {
+      const answer = await this.fetchAnswer(ref.id, options);
+      if (!answer) {
+        throw new McpError(ErrorCode.InvalidParams, `Answer ${ref.id} not found`);
+      }
+      const question = await this.fetchQuestion(answer.question_id, options);
+      if (!question) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Question ${answer.question_id} not found`
+        );
+      }
+      const result: SearchResult = {
+        question,
+        answers: [answer],
+        comments: {
+          question: [],
+          answers: { [answer.answer_id]: await this.fetchComments(answer.answer_id, options) },
+        },
+        site: ref.site || this.defaultSite,
+      };
+      return {
+        name: `Answer to: ${decodeHtmlEntities(question.title)}`,
+        text: this.formatResponse([result], "markdown"),
+      };
+    }
+
+    const params = new URLSearchParams({
+      site: ref.site || this.defaultSite,
+      filter: DEFAULT_FILTER,
+    });
+    if (this.apiKey) params.append("key", this.apiKey);
+    if (this.accessToken) params.append("access_token", this.accessToken);
+
+    const data = await this.cachedGet<StackOverflowQuestion>(
+      "questions",
+      `/tags/${encodeURIComponent(ref.tag)}/faq`,
+      params
+    );
+    const results = await this.buildSearchResults(data.items, options);
+    return {
+      name: `FAQ for [${ref.tag}]`,
+      text: this.formatResponse(results, "markdown"),
+    };
+  }
+
+  /**
+   * Adds an item to the recently viewed/posted resource list and tells clients it changed
+   */
+  private rememberResource(resource: RecentResource) {
+    this.recentResources = [
+      resource,
+      ...this.recentResources.filter((item) => item.uri !== resource.uri),
+    ].slice(0, MAX_RECENT_RESOURCES);
+
+    for (const session of this.sessions) {
+      session.sendResourceListChanged().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Notifies sessions subscribed to any of the given posts that they changed
+   */
+  private notifyPostsUpdated(postIds: number[]) {
+    for (const [session, uris] of this.subscriptions) {
+      for (const uri of uris) {
+        const ref = parseResourceUri(uri);
+        if (ref && ref.kind !== "tagFaq" && postIds.includes(ref.id)) {
+          session.sendResourceUpdated({ uri }).catch(() => undefined);
+        }
+      }
+    }
+  }
+
+  private checkRateLimit(): boolean {
+    const now = Date.now();
+    // Remove timestamps outside the window
+    this.requestTimestamps = this.requestTimestamps.filter(
+      (timestamp) => now - timestamp < RATE_LIMIT_WINDOW_MS
+    );
+
+    if (this.requestTimestamps.length >= MAX_REQUESTS_PER_WINDOW) {
+      return false;
+    }
+
+    this.requestTimestamps.push(now);
+    return true;
+  }
+
+  private async withRateLimit<T>(
+    fn: () => Promise<T>,
+    retries = 3
+  ): Promise<T> {
+    if (!this.checkRateLimit()) {
+      // Exceeded rate limit, wait before retrying
+      console.warn("Rate limit exceeded, waiting before retry...");
+      await new Promise((resolve) => setTimeout(resolve, RETRY_AFTER_MS));
+      return this.withRateLimit(fn, retries);
+    }
+
+    try {
+      return await fn();
+    } catch (error) {
+      if (
+        retries > 0 &&
+        ((error instanceof Error && error.message.includes("429")) ||
+          (typeof error === "object" &&
+            error !== null &&
+            "status" in error &&
+            error.status === 429))
+      ) {
+        console.warn("Rate limit hit (429), retrying after delay...");
+        await new Promise((resolve) => setTimeout(resolve, RETRY_AFTER_MS));
+        return this.withRateLimit(fn, retries - 1);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fails fast once the daily quota is spent; the quota resets at midnight UTC
+   */
+  private checkQuota() {
+    if (
+      this.quota &&
+      this.quota.remaining <= 0 &&
+      Date.now() < nextUtcMidnight(this.quota.updatedAt)
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Stack Exchange daily API quota exhausted (0/${this.quota.max}); it resets at ${new Date(
+          nextUtcMidnight(this.quota.updatedAt)
+        ).toISOString()}`
+      );
+    }
+  }
+
+  /**
+   * Returns the API quota reported by the most recent response, if any
+   */
+  getQuota(): QuotaInfo | undefined {
+    return this.quota;
+  }
+
+  /**
+   * Sends a request to the API and parses the response wrapper.
+   * Waits out any `backoff` the API set for the method, records the remaining quota,
+   * and retries throttle violations that clear within MAX_THROTTLE_WAIT_MS.
+   */
+  private async apiRequest<T>(
+    path: string,
+    params: URLSearchParams,
+    options: { post?: boolean; errorPrefix?: string } = {},
+    retries = 3
+  ): Promise<ApiWrapper<T>> {
+    const method = apiMethodOf(path);
+    const errorPrefix = options.errorPrefix || "Stack Overflow API error";
+
+    this.checkQuota();
+
+    const waitMs = (this.backoffUntil.get(method) || 0) - Date.now();
+    if (waitMs > 0) {
+      console.warn(`Backing off ${method} for ${waitMs}ms as requested by the API...`);
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+
+    const response = await this.withRateLimit(() =>
+      options.post
+        ? fetch(`${STACKOVERFLOW_API}${path}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+            body: params,
+          })
+        : fetch(`${STACKOVERFLOW_API}${path}?${params}`)
+    );
+    const data = (await response.json()) as ApiWrapper<T> & Partial<ApiErrorResponse>;
+
+    if (data.quota_remaining !== undefined && data.quota_max !== undefined) {
+      this.quota = {
+        remaining: data.quota_remaining,
+        max: data.quota_max,
+        updatedAt: Date.now(),
+      };
+    }
+    if (data.backoff) {
+      this.backoffUntil.set(method, Date.now() + data.backoff * 1000);
+    }
+
+    if (!response.ok || data.error_id) {
+      if (data.error_id === THROTTLE_VIOLATION) {
+        const seconds = /(\d+) seconds?/.exec(data.error_message || "");
+        const throttleMs = seconds ? parseInt(seconds[1], 10) * 1000 : RETRY_AFTER_MS;
+
+        if (retries > 0 && throttleMs <= MAX_THROTTLE_WAIT_MS) {
+          console.warn(`Throttled by the API, retrying ${method} in ${throttleMs}ms...`);
+          this.backoffUntil.set(method, Date.now() + throttleMs);
+          return this.apiRequest(path, params, options, retries - 1);
+        }
+
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `${errorPrefix}: throttled by Stack Exchange, retry in ${Math.ceil(
+            throttleMs / 1000
+          )} seconds (${data.error_message})`
+        );
+      }
+
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${errorPrefix}: ${data.error_message} (${data.error_id})`
+      );
+    }
+
+    return data;
+  }
+
+  private async searchStackOverflow(
+    query: string,
+    tags?: string[],
+    options: {
+      minScore?: number;
+      limit?: number;
+      includeComments?: boolean;
+      cacheMode?: CacheMode;
+      site?: string;
+      page?: number;
+      filters?: SearchFilters;
+    } = {}
+  ): Promise<SearchResult[]> {
+    // Last line of defence: callers redact first so they can report findings
+    query = this.redactor.redact(query).text;
+    const filters = options.filters && this.redactSearchFilters(options.filters).input;
+    const page = options.page || 1;
+    const pageSize = options.limit || DEFAULT_PAGE_SIZE;
+
+    const params = new URLSearchParams({
+      site: options.site || this.defaultSite,
+      sort: "votes",
+      order: "desc",
+      filter: DEFAULT_FILTER,
+      q: query,
+      ...(tags && { tagged: tags.join(";") }),
+      ...(filters && searchFilterParams(filters)),
+    });
+
+    if (this.apiKey) {
+      params.append("key", this.apiKey);
+    }
+
+    if (this.accessToken) {
+      params.append("access_token", this.accessToken);
+    }
+
+    try {
+      return await this.withBackend(
+        options.site || this.defaultSite,
+        async () => {
+          const { items, info } = await this.fetchPage<StackOverflowQuestion>(
+            "search",
+            "/search/advanced",
+            params,
+            page,
+            pageSize,
+            options.cacheMode
+          );
+          return this.withPageInfo(await this.buildSearchResults(items, options), info);
+        },
+        (index) =>
+          this.offlinePage(
+            index.search(query, {
+              ...options,
+              tags,
+              offset: (page - 1) * pageSize,
+              limit: pageSize + 1,
+            }),
+            page,
+            pageSize
+          )
+      );
+    } catch (error) {
+      // Handle generic errors
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to search Stack Overflow: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  private async fetchAnswers(
+    questionId: number,
+    options: FetchOptions = {}
+  ): Promise<StackOverflowAnswer[]> {
+    const answers = await this.fetchAnswersBatch([questionId], options);
+    return answers.get(questionId) || [];
+  }
+
+  private async fetchComments(
+    postId: number,
+    options: FetchOptions = {}
+  ): Promise<StackOverflowComment[]> {
+    const comments = await this.fetchCommentsBatch([postId], options);
+    return comments.get(postId) || [];
+  }
+
+  private async fetchAnswer(
+    answerId: number,
+    options: FetchOptions = {}
+  ): Promise<StackOverflowAnswer | undefined> {
+    const params = new URLSearchParams({
+      site: options.site || this.defaultSite,
+      filter: ANSWER_FILTER,
+    });
+    if (this.apiKey) params.append("key", this.apiKey);
+    if (this.accessToken) params.append("access_token", this.accessToken);
+
+    const data = await this.cachedGet<StackOverflowAnswer>(
+      "answers",
+      `/answers/${answerId}`,
+      params,
+      options.cacheMode,
+      [answerId]
+    );
+    return (data.items && data.items[0]) || undefined;
+  }
+
+  /**
+   * Fetches answers for many questions with /questions/{ids}/answers, grouped by question id
+   */
+  private async fetchAnswersBatch(
+    questionIds: number[],
+    options: FetchOptions = {}
+  ): Promise<Map<number, StackOverflowAnswer[]>> {
+    const params = new URLSearchParams({
+      site: options.site || this.defaultSite,
+      filter: ANSWER_FILTER,
+      sort: "votes",
+      order: "desc",
+    });
+
+    try {
+      const answers = await this.fetchByIds<StackOverflowAnswer>(
+        "answers",
+        (ids) => `/questions/${ids}/answers`,
+        questionIds,
+        params,
+        options.cacheMode
+      );
+      return groupBy(answers, (answer) => answer.question_id);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to fetch answers: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Fetches comments for many posts with /posts/{ids}/comments, grouped by post id
+   */
+  private async fetchCommentsBatch(
+    postIds: number[],
+    options: FetchOptions = {}
+  ): Promise<Map<number, StackOverflowComment[]>> {
+    const params = new URLSearchParams({
+      site: options.site || this.defaultSite,
+      filter: COMMENT_FILTER,
+      sort: "votes",
+      order: "desc",
+    });
+
+    try {
+      const comments = await this.fetchByIds<StackOverflowComment>(
+        "comments",
+        (ids) => `/posts/${ids}/comments`,
+        postIds,
+        params,
+        options.cacheMode
+      );
+      return groupBy(comments, (comment) => comment.post_id);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to fetch comments: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Calls a vectorized endpoint in batches of MAX_IDS_PER_REQUEST ids
+   */
+  private async fetchByIds<T>(
+    endpoint: CacheEndpoint,
+    pathFor: (ids: string) => string,
+    ids: number[],
+    baseParams: URLSearchParams,
+    cacheMode?: CacheMode
+  ): Promise<T[]> {
+    const items: T[] = [];
+
+    for (const batch of chunk([...new Set(ids)], MAX_IDS_PER_REQUEST)) {
+      items.push(
+        ...(await this.fetchAllPages<T>(
+          endpoint,
+          pathFor(batch.join(";")),
+          baseParams,
+          cacheMode,
+          batch
+        ))
+      );
+    }
+
+    return items;
+  }
+
+  /**
+   * Follows has_more so no items are lost when a response spans several pages
+   */
+  private async fetchAllPages<T>(
+    endpoint: CacheEndpoint,
+    path: string,
+    baseParams: URLSearchParams,
+    cacheMode?: CacheMode,
+    postIds: number[] = []
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+      const params = new URLSearchParams(baseParams);
+      params.set("pagesize", MAX_IDS_PER_REQUEST.toString());
+      params.set("page", page.toString());
+      if (this.apiKey) params.append("key", this.apiKey);
+      if (this.accessToken) params.append("access_token", this.accessToken);
+
+      const data = await this.cachedGet<T>(endpoint, path, params, cacheMode, postIds);
+      items.push(...(data.items || []));
+      hasMore = Boolean(data.has_more);
+      page++;
+    }
+
+    return items;
+  }
+
+  /**
+   * One page of at most MAX_PAGE_SIZE items. The total comes from the built-in "total"
+   * filter, unless the page already shows it.
+   */
+  private async fetchPage<T>(
+    endpoint: CacheEndpoint,
+    path: string,
+    baseParams: URLSearchParams,
+    page: number,
+    pageSize: number,
+    cacheMode?: CacheMode
+  ): Promise<{ items: T[]; info: PageInfo }> {
+    pageSize = Math.min(pageSize, MAX_PAGE_SIZE);
+    const params = new URLSearchParams(baseParams);
+    params.set("pagesize", pageSize.toString());
+    params.set("page", page.toString());
+    const data = await this.cachedGet<T>(endpoint, path, params, cacheMode);
+    const items = data.items || [];
+    const hasMore = Boolean(data.has_more);
+
+    let total: number | undefined;
+    if (!hasMore && (items.length > 0 || page === 1)) {
+      total = (page - 1) * pageSize + items.length;
+    } else if (hasMore) {
+      const params = new URLSearchParams(baseParams);
+      params.set("filter", "total");
+      total = (await this.cachedGet<never>(endpoint, path, params, cacheMode)).total;
+    }
+
+    return {
+      items,
+      info: { page, pageSize, hasMore, ...(total !== undefined && { total }) },
+    };
+  }
+
+  private withPageInfo(results: SearchResult[], info: PageInfo): SearchResult[] {
+    this.searchPages.set(results, info);
+    return results;
+  }
+
+  /**
+   * Offline searches fetch one extra result to tell whether there is another page
+   */
+  private offlinePage(results: SearchResult[], page: number, pageSize: number) {
+    return this.withPageInfo(results.slice(0, pageSize), {
+      page,
+      pageSize,
+      hasMore: results.length > pageSize,
+    });
+  }
+
+  /**
+   * `page`, `hasMore`, `nextCursor` and `total` for the search tools' responses
+   */
+  private paginationOf(results: SearchResult[], tier?: QueryTierName): Pagination | undefined {
+    const info = this.searchPages.get(results);
+    return (
+      info && {
+        page: info.page,
+        hasMore: info.hasMore,
+        ...(info.hasMore && {
+          nextCursor: encodeCursor({
+            page: info.page + 1,
+            pageSize: info.pageSize,
+            ...(tier && { tier }),
+          }),
+        }),
+        ...(info.total !== undefined && { total: info.total }),
+      }
+    );
+  }
+
+  /**
+   * Attaches answers (and optionally comments) to a page of questions
+   * using batched requests instead of one request per post.
+   */
+  private async buildSearchResults(
+    questions: StackOverflowQuestion[],
+    options: FetchOptions & {
+      minScore?: number;
+      includeComments?: boolean;
+    }
+  ): Promise<SearchResult[]> {
+    const kept = questions.filter(
+      (question) => !(options.minScore && question.score < options.minScore)
+    );
+    if (kept.length === 0) {
+      return [];
+    }
+
+    const answersByQuestion = await this.fetchAnswersBatch(
+      kept.map((question) => question.question_id),
+      options
+    );
+
+    let commentsByPost: Map<number, StackOverflowComment[]> | undefined;
+    if (options.includeComments) {
+      const postIds = kept.flatMap((question) => [
+        question.question_id,
+        ...(answersByQuestion.get(question.question_id) || []).map(
+          (answer) => answer.answer_id
+        ),
+      ]);
+      commentsByPost = await this.fetchCommentsBatch(postIds, options);
+    }
+
+    return kept.map((question) => {
+      const answers = answersByQuestion.get(question.question_id) || [];
+      let comments: SearchResultComments | undefined;
+
+      if (commentsByPost) {
+        const answersMap: { [key: number]: StackOverflowComment[] } = {};
+        for (const answer of answers) {
+          answersMap[answer.answer_id] = commentsByPost.get(answer.answer_id) || [];
+        }
+        comments = {
+          question: commentsByPost.get(question.question_id) || [],
+          answers: answersMap,
+        };
+      }
+
+      return {
+        question,
+        answers,
+        ...(options.includeComments && { comments }),
+        site: options.site || this.defaultSite,
+      };
+    });
+  }
+
+  private async fetchQuestion(
+    questionId: number,
+    options: FetchOptions = {}
+  ): Promise<StackOverflowQuestion | undefined> {
+    const params = new URLSearchParams({
+      site: options.site || this.defaultSite,
+      filter: DEFAULT_FILTER,
+    });
+
+    if (this.apiKey) params.append("key", this.apiKey);
+    if (this.accessToken) params.append("access_token", this.accessToken);
+
+    return this.withBackend(
+      options.site || this.defaultSite,
+      async () => {
+        const data = await this.cachedGet<StackOverflowQuestion>(
+          "question",
+          `/questions/${questionId}`,
+          params,
+          options.cacheMode,
+          [questionId]
+        );
+        return (data.items && data.items[0]) || undefined;
+      },
+      (index) => index.getQuestion(questionId)
+    );
+  }
+
+  /**
+   * Routes a read to the API or the offline index depending on STACKOVERFLOW_BACKEND.
+   * In fallback mode the offline index answers whenever the online call fails.
+   */
+  private async withBackend<T>(
+    site: string,
+    online: () => Promise<T>,
+    offline: (index: OfflineIndex) => T
+  ): Promise<T> {
+    if (this.backend === "offline") {
+      return offline(await this.offlineIndexFor(site));
+    }
+
+    try {
+      return await online();
+    } catch (error) {
+      if (this.backend !== "fallback") {
+        throw error;
+      }
+      console.warn(
+        "Stack Exchange API unavailable, answering from the offline index:",
+        error instanceof Error ? error.message : String(error)
+      );
+      return offline(await this.offlineIndexFor(site));
+    }
+  }
+
+  /**
+   * The offline index holds a single site's dump; reads for any other site are refused
+   * instead of being answered with the wrong site's questions.
+   */
+  private async offlineIndexFor(site: string): Promise<OfflineIndex> {
+    const index = await this.loadOfflineIndex();
+    if (index.site !== site) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `The offline index at ${this.offlineIndexPath} holds ${index.site}, not ${site}. Import a ${site} dump to use it offline`
+      );
+    }
+    return index;
+  }
+
+  private loadOfflineIndex(): Promise<OfflineIndex> {
+    if (!this.offlineIndex) {
+      this.offlineIndex = OfflineIndex.load(this.offlineIndexPath).catch((error) => {
+        this.offlineIndex = undefined;
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Offline index unavailable at ${this.offlineIndexPath} (${
+            error instanceof Error ? error.message : String(error)
+          }). Run \`stackoverflow-mcp offline import <dumpDir>\` first`
+        );
+      });
+    }
+    return this.offlineIndex;
+  }
+
+  /**
+   * GET an API path through the response cache. Entries are tagged with `postIds`
+   * plus the ids of any questions, answers and posts in the response, so writes to
+   * any of them can invalidate the entry.
+   */
+  private async cachedGet<T>(
+    endpoint: CacheEndpoint,
+    path: string,
+    params: URLSearchParams,
+    cacheMode?: CacheMode,
+    postIds: number[] = []
+  ): Promise<ApiWrapper<T>> {
+    return this.cache.getOrFetch(
+      endpoint,
+      cacheKey(endpoint, path, params),
+      () => this.apiRequest<T>(path, params),
+      (data) => [
+        ...postIds,
+        ...(data.items || []).flatMap((item) => {
+          const { question_id, answer_id, post_id } = item as {
+            question_id?: number;
+            answer_id?: number;
+            post_id?: number;
+          };
+          return [question_id, answer_id, post_id].filter((id): id is number => id !== undefined);
+        }),
+      ],
+      cacheMode
+    );
+  }
+
+  private ensureWriteAccess() {
+    if (!this.apiKey || !this.accessToken) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        "Write operations require STACKOVERFLOW_API_KEY and STACKOVERFLOW_ACCESS_TOKEN; run `stackoverflow-mcp auth login` to obtain a token"
+      );
+    }
+  }
+
+  /**
+   * Redacts the free-text search filters, which go to the API as typed like the query
+   */
+  private redactSearchFilters<T extends SearchFilters>(
+    input: T
+  ): { input: T; findings: RedactionFinding[] } {
+    const text: Record<string, string> = {};
+    for (const name of TEXT_FILTERS) {
+      const value = input[name];
+      if (typeof value === "string") {
+        text[name] = value;
+      }
+    }
+    const { fields, findings } = this.redactor.redactAll(text);
+    return { input: { ...input, ...fields }, findings };
+  }
+
+  /**
+   * Redacts text about to be published; refuses outright when it contains a likely secret
+   */
+  private redactForPosting<T extends Record<string, string>>(fields: T, action: string) {
+    const result = this.redactor.redactAll(fields);
+    const secrets = result.findings.filter((finding) => finding.confidence === "high");
+    if (secrets.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Refusing to ${action}: likely secrets detected (${describeFindings(
+          secrets
+        )}). Remove them and try again`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Decides whether a write that passed its checks may be sent. Returns the response to
+   * hand back instead of posting: a dry-run preview, or a preview with a confirmation token
+   * when the caller has not yet confirmed this exact payload.
+   */
+  private holdWrite(
+    tool: WriteToolName,
+    input: WriteInput,
+    path: string,
+    params: URLSearchParams,
+    preview: string,
+    details: Record<string, unknown> = {},
+    audit: AuditRecord = {}
+  ) {
+    const dryRun = input.dryRun ?? this.dryRun;
+    const payloadHash = hashPayload(path, params);
+    audit.payloadHash = payloadHash;
+    if (!dryRun && !this.requireConfirmation) {
+      audit.sent = true;
+      return undefined;
+    }
+
+    if (!dryRun && input.confirmationToken) {
+      this.consumeConfirmation(input.confirmationToken, tool, payloadHash);
+      audit.sent = true;
+      return undefined;
+    }
+
+    audit.outcome = dryRun ? "dry_run" : "pending_confirmation";
+
+    let confirmation: Record<string, unknown> = {
+      dryRun: true,
+      message: "Dry run: all checks passed, nothing was sent",
+    };
+    if (!dryRun) {
+      const token = this.issueConfirmation(tool, input, payloadHash);
+      confirmation = {
+        message: `Confirmation required: nothing was sent. Show the preview to the user, then call confirm_action with this token (or repeat ${tool} with confirmationToken) to publish`,
+        confirmationToken: token.token,
+        expiresAt: new Date(token.expiresAt).toISOString(),
+      };
+    }
+
+    const payload = Object.fromEntries(
+      [...params].map(([name, value]) => [
+        name,
+        name === "key" || name === "access_token" ? "***" : value,
+      ])
+    );
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              ...confirmation,
+              request: { method: "POST", url: `${STACKOVERFLOW_API}${path}`, payload },
+              preview,
+              ...details,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  private issueConfirmation(
+    tool: WriteToolName,
+    input: WriteInput,
+    payloadHash: string
+  ): PendingConfirmation {
+    const now = Date.now();
+    for (const [token, pending] of this.pendingConfirmations) {
+      if (pending.expiresAt <= now) {
+        this.pendingConfirmations.delete(token);
+      }
+    }
+
+    const pending: PendingConfirmation = {
+      token: randomBytes(CONFIRMATION_TOKEN_BYTES).toString("base64url"),
+      tool,
+      input: { ...input, confirmationToken: undefined, dryRun: undefined },
+      payloadHash,
+      expiresAt: now + CONFIRMATION_TTL_MS,
+    };
+    this.pendingConfirmations.set(pending.token, pending);
+    return pending;
+  }
+
+  /**
+   * Tokens are single use: any attempt, successful or not, spends them
+   */
+  private consumeConfirmation(token: string, tool: WriteToolName, payloadHash: string) {
+    const pending = this.pendingConfirmations.get(token);
+    this.pendingConfirmations.delete(token);
+
+    if (!pending || pending.tool !== tool) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Unknown or already used confirmation token for ${tool}; call ${tool} again without a token to get a new one`
+      );
+    }
+    if (pending.expiresAt <= Date.now()) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        "Confirmation token expired; call the tool again to get a new one"
+      );
+    }
+    if (pending.payloadHash !== payloadHash) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        "The payload changed since the confirmation token was issued; review the new preview and confirm again"
+      );
+    }
+  }
+
+  private async handleConfirmAction(input: ConfirmActionInput) {
+    const pending = this.pendingConfirmations.get(input.token);
+    if (!pending) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        "Unknown or already used confirmation token"
+      );
+    }
+
+    // Re-running the tool repeats every policy check against the current state
+    const confirmed = { ...pending.input, confirmationToken: input.token, dryRun: false };
+    return this.runWriteTool(pending.tool, confirmed);
+  }
+
+  /**
+   * Runs a write tool and appends its outcome to the audit log, refusals and failures included
+   */
+  private async runWriteTool(tool: WriteToolName, input: WriteInput) {
+    const audit: AuditRecord = {};
+    try {
+      const result = await this.dispatchWrite(tool, input, audit);
+      await this.recordAudit(tool, input, audit);
+      return result;
+    } catch (error) {
+      await this.recordAudit(tool, input, {
+        ...audit,
+        outcome: audit.sent ? "failed" : "refused",
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private dispatchWrite(tool: WriteToolName, input: WriteInput, audit: AuditRecord) {
+    switch (tool) {
+      case "post_question":
+        return this.handlePostQuestion(input as PostQuestionInput, audit);
+      case "post_solution":
+        return this.handlePostSolution(input as PostSolutionInput, audit);
+      case "thumbs_up":
+        return this.handleThumbsUp(input as ThumbsUpInput, audit);
+      case "comment_solution":
+        return this.handleCommentSolution(input as CommentSolutionInput, audit);
+      case "edit_post":
+        return this.handleEditPost(input as EditPostInput, audit);
+      case "delete_post":
+        return this.handleDeletePost(input as DeletePostInput, audit);
+      case "accept_answer":
+        return this.handleAcceptAnswer(input as AcceptAnswerInput, audit);
+      case "undo_vote":
+        return this.handleUndoVote(input as UndoVoteInput, audit);
+      case "downvote":
+        return this.handleDownvote(input as DownvoteInput, audit);
+      case "flag_post":
+        return this.handleFlagPost(input as FlagPostInput, audit);
+    }
+  }
+
+  private async recordAudit(
+    tool: WriteToolName,
+    input: WriteInput,
+    audit: AuditRecord
+  ) {
+    const target =
+      "answerId" in input
+        ? input.answerId
+        : "questionId" in input
+          ? input.questionId
+          : "postId" in input
+            ? input.postId
+            : undefined;
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      tool,
+      site: input.site || this.defaultSite,
+      ...(target !== undefined && { targetPostId: target }),
+      ...(audit.payloadHash && { payloadHash: audit.payloadHash }),
+      outcome: audit.outcome || "posted",
+      ...(audit.reason && { reason: audit.reason }),
+      ...(audit.responseId !== undefined && { responseId: audit.responseId }),
+      ...(audit.link && { link: audit.link }),
+      ...(audit.sent && this.quota && { quotaRemaining: this.quota.remaining }),
+    };
+
+    // A broken audit log must not hide the outcome of a write that already happened
+    try {
+      await this.auditLog.append(entry);
+    } catch (error) {
+      console.error("[Audit] Failed to append to the audit log:", error);
+    }
+  }
+
+  private async handleListAuditLog(input: ListAuditLogInput) {
+    let result;
+    try {
+      result = await this.auditLog.query(input);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+
+  private async handleWhoami(input: WhoamiInput) {
+    this.ensureWriteAccess();
+    const account = await this.fetchAccount(input.site, true);
+    const token = await inspectToken(this.accessToken as string, this.apiKey);
+    const writeTools = Object.fromEntries(
+      (Object.keys(TOOL_PRIVILEGES) as WriteToolName[]).map((tool) => {
+        const missing = missingPrivilege(tool, account);
+        return [tool, missing ? { allowed: false, reason: missing } : { allowed: true }];
+      })
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              site: account.site,
+              userId: account.user.user_id,
+              displayName: account.user.display_name,
+              reputation: account.user.reputation,
+              userType: account.user.user_type,
+              link: account.user.link,
+              privileges: account.privileges.map((privilege) => privilege.short_description),
+              scopes: token?.scope,
+              ...(token?.expiresAt && { tokenExpiresAt: new Date(token.expiresAt).toISOString() }),
+              writeTools,
+              quotaRemaining: this.quota?.remaining,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * /me and /me/privileges for the token on `site`, reused for ACCOUNT_TTL_MS unless `refresh`
+   */
+  private async fetchAccount(site?: string, refresh = false): Promise<AccountInfo> {
+    const siteName = site || this.defaultSite;
+    const cached = this.accounts.get(siteName);
+    if (cached && cached.expiresAt > Date.now() && !refresh) {
+      return cached.account;
+    }
+
+    const params = new URLSearchParams({
+      site: siteName,
+      pagesize: "100",
+      key: this.apiKey as string,
+      access_token: this.accessToken as string,
+    });
+    const users = await this.apiRequest<StackExchangeUser>("/me", params, {
+      errorPrefix: "Failed to load the account",
+    });
+    const user = users.items && users.items[0];
+    if (!user) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `The access token's user has no account on ${siteName}; join the site before writing to it`
+      );
+    }
+    const privileges = await this.apiRequest<StackExchangePrivilege>("/me/privileges", params, {
+      errorPrefix: "Failed to load the account's privileges",
+    });
+
+    const account = { site: siteName, user, privileges: privileges.items || [] };
+    this.accounts.set(siteName, { account, expiresAt: Date.now() + ACCOUNT_TTL_MS });
+    return account;
+  }
+
+  /**
+   * Refuses a write the account lacks the privilege for, before quota is spent on other checks
+   */
+  private async preflightWrite(tool: WriteToolName, site?: string, ownerId?: number) {
+    this.ensureWriteAccess();
+    const account = await this.fetchAccount(site);
+    const missing = missingPrivilege(tool, account, {
+      ownPost: ownerId !== undefined && ownerId === account.user.user_id,
+    });
+    if (missing) {
+      throw new McpError(ErrorCode.InvalidRequest, `Insufficient privileges: ${missing}`);
+    }
+    return account;
+  }
+
+  /**
+   * Possible duplicates from /similar, a search on the title's key terms and a search
+   * on the error signature, scored by similarity to the new question
+   */
+  private async findDuplicates(
+    title: string,
+    errorSignature: string,
+    tags: string[],
+    site?: string
+  ): Promise<DuplicateCandidate[]> {
+    const search = async (query: string) =>
+      (
+        await this.searchStackOverflow(query, tags, {
+          minScore: 0,
+          limit: DUPLICATE_CANDIDATES,
+          includeComments: false,
+          site,
+        })
+      ).map((result) => result.question);
+
+    const found = await search(errorSignature);
+    const titleTerms = extractKeyTerms(title).join(" ");
+    if (titleTerms) {
+      found.push(...(await search(titleTerms)));
+    }
+    found.push(...(await this.fetchSimilar(title, tags, site)));
+    return scoreDuplicates(title, errorSignature, found);
+  }
+
+  /**
+   * /similar has no offline equivalent; the offline index contributes the searches only
+   */
+  private async fetchSimilar(
+    title: string,
+    tags: string[],
+    site?: string
+  ): Promise<StackOverflowQuestion[]> {
+    const params = new URLSearchParams({
+      site: site || this.defaultSite,
+      sort: "relevance",
+      order: "desc",
+      filter: DEFAULT_FILTER,
+      title,
+      pagesize: DUPLICATE_CANDIDATES.toString(),
+      ...(tags.length > 0 && { tagged: tags.join(";") }),
+    });
+
+    if (this.apiKey) {
+      params.append("key", this.apiKey);
+    }
+
+    if (this.accessToken) {
+      params.append("access_token", this.accessToken);
+    }
+
+    return this.withBackend(
+      site || this.defaultSite,
+      async () => (await this.cachedGet<StackOverflowQuestion>("search", "/similar", params)).items || [],
+      () => []
+    );
+  }
+
+  private async handlePostQuestion(input: PostQuestionInput, audit: AuditRecord = {}) {
+    if (!Array.isArray(input.triedApproaches) || input.triedApproaches.length < 3) {
+      throw new McpError(ErrorCode.InvalidParams, "At least 3 triedApproaches are required");
+    }
+    const { fields, findings: redactions } = this.redactForPosting(
+      { title: input.title, body: input.body, errorSignature: input.errorSignature },
+      "post"
+    );
+
+    await this.preflightWrite("post_question", input.site);
+
+    // Enforce strict policy: refuse when an existing question is likely the same problem
+    const candidates = await this.findDuplicates(
+      fields.title,
+      fields.errorSignature,
+      input.tags,
+      input.site
+    );
+    const duplicates = candidates.filter((candidate) => candidate.score >= this.duplicateThreshold);
+    if (duplicates.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Refusing to post: likely duplicates exist (similarity >= ${this.duplicateThreshold}). Check these first:\n${formatDuplicates(
+          duplicates.slice(0, MAX_REPORTED_DUPLICATES)
+        )}`
+      );
+    }
+    const nearest = candidates.slice(0, MAX_REPORTED_DUPLICATES);
+
+    const params = new URLSearchParams({
+      site: input.site || this.defaultSite,
+      title: fields.title,
+      body: fields.body,
+      tags: input.tags.join(";"),
+      key: this.apiKey as string,
+      access_token: this.accessToken as string,
+    });
+
+    const held = this.holdWrite(
+      "post_question",
+      input,
+      "/questions/add",
+      params,
+      `# ${fields.title}\n\n**Tags:** ${input.tags.join(", ")}\n\n${fields.body}`,
+      {
+        triedApproaches: input.triedApproaches,
+        ...(nearest.length > 0 && { duplicateCandidates: nearest }),
+        ...(redactions.length > 0 && { redactions }),
+      },
+      audit
+    );
+    if (held) {
+      return held;
+    }
+
+    const data = await this.apiRequest<StackOverflowQuestion>("/questions/add", params, {
+      post: true,
+      errorPrefix: "Failed to post question",
+    });
+    const created = data.items && data.items[0];
+    audit.responseId = created?.question_id;
+    audit.link = created?.link;
+    if (created) {
+      this.rememberResource({
+        uri: resourceUri({ kind: "question", id: created.question_id, site: input.site }, this.defaultSite),
+        name: fields.title,
+        description: "Posted question",
+        mimeType: "text/markdown",
+      });
     }
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              message: "Question posted successfully",
+              id: created?.question_id,
+              link: created?.link,
+              triedApproaches: input.triedApproaches,
+              ...(redactions.length > 0 && { redactions }),
+              quotaRemaining: this.quota?.remaining,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
 
-    if (this.accessToken) {
-      params.append("access_token", this.accessToken);
+  private async handlePostSolution(input: PostSolutionInput, audit: AuditRecord = {}) {
+    if (!input.confirmedResolved) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        "Refusing to post: confirmedResolved must be true"
+      );
+    }
+    if (!Array.isArray(input.evidence) || input.evidence.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "Refusing to post: evidence is required"
+      );
     }
+    const { fields, findings: redactions } = this.redactForPosting({ body: input.body }, "post");
+    await this.preflightWrite("post_solution", input.site);
 
-    try {
-      const response = await this.withRateLimit(() =>
-        fetch(`${STACKOVERFLOW_API}/search/advanced?${params}`)
+    // Enforce: do not post if a similar/accepted solution exists (approximation)
+    const question = await this.fetchQuestion(input.questionId, {
+      site: input.site,
+    });
+    if (!question) {
+      throw new McpError(ErrorCode.InvalidRequest, "Question not found");
+    }
+    if (question.accepted_answer_id || question.answer_count > 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        "Refusing to post: the question already has answers (or an accepted one)"
       );
+    }
 
-      if (!response.ok) {
-        const errorData = (await response.json()) as ApiErrorResponse;
-        throw new McpError(
-          ErrorCode.InvalidRequest,
-          `Stack Overflow API error: ${errorData.error_message} (${errorData.error_id})`
-        );
-      }
+    const params = new URLSearchParams({
+      site: input.site || this.defaultSite,
+      body: fields.body,
+      key: this.apiKey as string,
+      access_token: this.accessToken as string,
+    });
+
+    const held = this.holdWrite(
+      "post_solution",
+      input,
+      `/questions/${input.questionId}/answers/add`,
+      params,
+      `## Answer to: ${decodeHtmlEntities(question.title)}\n\n${fields.body}`,
+      { evidence: input.evidence, ...(redactions.length > 0 && { redactions }) },
+      audit
+    );
+    if (held) {
+      return held;
+    }
 
-      const data = await response.json();
-      const results: SearchResult[] = [];
+    const data = await this.apiRequest<StackOverflowAnswer>(
+      `/questions/${input.questionId}/answers/add`,
+      params,
+      { post: true, errorPrefix: "Failed to post answer" }
+    );
+    await this.cache.invalidatePosts([input.questionId]);
+    this.notifyPostsUpdated([input.questionId]);
 
-      for (const question of data.items) {
-        if (options.minScore && question.score < options.minScore) {
-          continue;
-        }
+    const created = data.items && data.items[0];
+    audit.responseId = created?.answer_id;
+    audit.link = created?.link;
+    if (created) {
+      this.rememberResource({
+        uri: resourceUri({ kind: "answer", id: created.answer_id, site: input.site }, this.defaultSite),
+        name: `Answer to: ${decodeHtmlEntities(question.title)}`,
+        description: "Posted answer",
+        mimeType: "text/markdown",
+      });
+    }
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              message: "Answer posted successfully",
+              id: created?.answer_id,
+              link: created?.link,
+              evidence: input.evidence,
+              ...(redactions.length > 0 && { redactions }),
+              quotaRemaining: this.quota?.remaining,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
 
-        const answers = await this.fetchAnswers(question.question_id);
-        let comments: SearchResultComments | undefined;
+  private async handleThumbsUp(input: ThumbsUpInput, audit: AuditRecord = {}) {
+    if (!input.confirmedFixed) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        "Refusing to upvote: confirmedFixed must be true"
+      );
+    }
+    await this.preflightWrite("thumbs_up", input.site);
 
-        if (options.includeComments) {
-          const answersMap: { [key: number]: StackOverflowComment[] } = {};
-          comments = {
-            question: await this.fetchComments(question.question_id),
-            answers: answersMap,
-          };
+    const params = new URLSearchParams({
+      site: input.site || this.defaultSite,
+      key: this.apiKey as string,
+      access_token: this.accessToken as string,
+    });
 
-          for (const answer of answers) {
-            if (answer.answer_id !== undefined) {
-              comments.answers[answer.answer_id] = await this.fetchComments(
-                answer.answer_id
-              );
-            }
-          }
-        }
+    const held = this.holdWrite(
+      "thumbs_up",
+      input,
+      `/posts/${input.postId}/upvote`,
+      params,
+      `Upvote post ${input.postId}`,
+      {},
+      audit
+    );
+    if (held) {
+      return held;
+    }
 
-        results.push({
-          question,
-          answers,
-          ...(options.includeComments && { comments }),
-        });
-      }
+    await this.apiRequest(`/posts/${input.postId}/upvote`, params, {
+      post: true,
+      errorPrefix: "Failed to upvote",
+    });
+    await this.cache.invalidatePosts([input.postId]);
+    this.notifyPostsUpdated([input.postId]);
+    return {
+      content: [
+        { type: "text", text: "Upvote submitted successfully" },
+      ],
+    };
+  }
 
-      return results;
-    } catch (error) {
-      // Handle generic errors
-      if (error instanceof McpError) {
-        throw error;
-      }
+  private async handleCommentSolution(input: CommentSolutionInput, audit: AuditRecord = {}) {
+    const { fields, findings: redactions } = this.redactForPosting(
+      { body: input.body },
+      "comment"
+    );
 
+    // Only if the question has no accepted solution
+    const question = await this.fetchQuestion(input.questionId, {
+      site: input.site,
+    });
+    if (!question) {
+      throw new McpError(ErrorCode.InvalidRequest, "Question not found");
+    }
+    if (question.accepted_answer_id) {
       throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to search Stack Overflow: ${
-          error instanceof Error ? error.message : String(error)
-        }`
+        ErrorCode.InvalidRequest,
+        "Refusing to comment: question already has an accepted answer"
       );
     }
-  }
+    // Commenting on your own question needs no privilege
+    await this.preflightWrite("comment_solution", input.site, question.owner?.user_id);
 
-  private async fetchAnswers(
-    questionId: number
-  ): Promise<StackOverflowAnswer[]> {
     const params = new URLSearchParams({
-      site: "stackoverflow",
-      filter: ANSWER_FILTER,
-      sort: "votes",
-      order: "desc",
+      site: input.site || this.defaultSite,
+      body: fields.body,
+      key: this.apiKey as string,
+      access_token: this.accessToken as string,
     });
 
-    if (this.apiKey) {
-      params.append("key", this.apiKey);
-    }
-
-    if (this.accessToken) {
-      params.append("access_token", this.accessToken);
+    const held = this.holdWrite(
+      "comment_solution",
+      input,
+      `/posts/${input.questionId}/comments/add`,
+      params,
+      `Comment on: ${decodeHtmlEntities(question.title)}\n\n${fields.body}`,
+      { ...(redactions.length > 0 && { redactions }) },
+      audit
+    );
+    if (held) {
+      return held;
     }
 
-    try {
-      const response = await this.withRateLimit(() =>
-        fetch(`${STACKOVERFLOW_API}/questions/${questionId}/answers?${params}`)
-      );
-
-      if (!response.ok) {
-        const errorData = (await response.json()) as ApiErrorResponse;
-        throw new McpError(
-          ErrorCode.InvalidRequest,
-          `Stack Overflow API error: ${errorData.error_message} (${errorData.error_id})`
-        );
-      }
+    const data = await this.apiRequest<StackOverflowComment>(
+      `/posts/${input.questionId}/comments/add`,
+      params,
+      { post: true, errorPrefix: "Failed to post comment" }
+    );
+    await this.cache.invalidatePosts([input.questionId]);
+    this.notifyPostsUpdated([input.questionId]);
+    const created = data.items && data.items[0];
+    audit.responseId = created?.comment_id;
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              message: "Comment posted successfully",
+              id: created?.comment_id,
+              ...(redactions.length > 0 && { redactions }),
+              quotaRemaining: this.quota?.remaining,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
 
-      const data = await response.json();
-      return data.items || [];
-    } catch (error) {
-      if (error instanceof McpError) {
-        throw error;
-      }
+  /**
+   * /posts/{id} with its body, read fresh so ownership and type checks see the current post
+   */
+  private async fetchPost(postId: number, site?: string): Promise<StackExchangePost | undefined> {
+    const params = new URLSearchParams({
+      site: site || this.defaultSite,
+      filter: "withbody",
+      key: this.apiKey as string,
+      access_token: this.accessToken as string,
+    });
+    const data = await this.apiRequest<StackExchangePost>(`/posts/${postId}`, params, {
+      errorPrefix: "Failed to load the post",
+    });
+    return (data.items && data.items[0]) || undefined;
+  }
 
+  /**
+   * The post `tool` targets, refused unless the authenticated user owns it
+   */
+  private async fetchOwnPost(tool: WriteToolName, action: string, postId: number, site?: string) {
+    const account = await this.preflightWrite(tool, site);
+    const post = await this.fetchPost(postId, site);
+    if (!post) {
+      throw new McpError(ErrorCode.InvalidRequest, "Post not found");
+    }
+    if (post.owner?.user_id !== account.user.user_id) {
       throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to fetch answers: ${
-          error instanceof Error ? error.message : String(error)
-        }`
+        ErrorCode.InvalidRequest,
+        `Refusing to ${action}: post ${postId} belongs to ${
+          post.owner?.display_name ? decodeHtmlEntities(post.owner.display_name) : "another user"
+        }, not ${account.user.display_name}`
       );
     }
+    return post;
   }
 
-  private async fetchComments(postId: number): Promise<StackOverflowComment[]> {
+  private async handleEditPost(input: EditPostInput, audit: AuditRecord = {}) {
+    if (!input.comment || !input.comment.trim()) {
+      throw new McpError(ErrorCode.InvalidParams, "Refusing to edit: an edit comment is required");
+    }
+    if (input.tags && (input.tags.length === 0 || input.tags.length > 5)) {
+      throw new McpError(ErrorCode.InvalidParams, "Refusing to edit: questions need 1 to 5 tags");
+    }
+    const { fields, findings: redactions } = this.redactForPosting(
+      {
+        body: input.body,
+        comment: input.comment,
+        ...(input.title !== undefined && { title: input.title }),
+      },
+      "edit"
+    );
+
+    const post = await this.fetchOwnPost("edit_post", "edit", input.postId, input.site);
+    const isQuestion = post.post_type === "question";
+    if (!isQuestion && (input.title !== undefined || input.tags !== undefined)) {
+      throw new McpError(ErrorCode.InvalidParams, "title and tags can only be edited on questions");
+    }
+
     const params = new URLSearchParams({
-      site: "stackoverflow",
-      filter: COMMENT_FILTER,
-      sort: "votes",
-      order: "desc",
+      site: input.site || this.defaultSite,
+      body: fields.body,
+      comment: fields.comment,
+      key: this.apiKey as string,
+      access_token: this.accessToken as string,
     });
-
-    if (this.apiKey) {
-      params.append("key", this.apiKey);
+    const title = fields.title ?? decodeHtmlEntities(post.title || "");
+    if (isQuestion) {
+      // /questions/{id}/edit always takes the title and tags
+      const tags =
+        input.tags ||
+        (await this.fetchQuestion(input.postId, { site: input.site, cacheMode: "bypass" }))?.tags ||
+        [];
+      params.set("title", title);
+      params.set("tags", tags.join(";"));
     }
 
-    if (this.accessToken) {
-      params.append("access_token", this.accessToken);
+    const path = `/${isQuestion ? "questions" : "answers"}/${input.postId}/edit`;
+    const held = this.holdWrite(
+      "edit_post",
+      input,
+      path,
+      params,
+      `${isQuestion ? `# ${title}` : `## Answer to: ${title}`}\n\n**Edit comment:** ${fields.comment}\n\n${fields.body}`,
+      { ...(redactions.length > 0 && { redactions }) },
+      audit
+    );
+    if (held) {
+      return held;
     }
 
-    try {
-      const response = await this.withRateLimit(() =>
-        fetch(`${STACKOVERFLOW_API}/posts/${postId}/comments?${params}`)
-      );
+    const data = await this.apiRequest<StackExchangePost>(path, params, {
+      post: true,
+      errorPrefix: "Failed to edit post",
+    });
+    await this.cache.invalidatePosts([input.postId]);
+    this.notifyPostsUpdated([input.postId]);
+    const edited = data.items && data.items[0];
+    audit.responseId = input.postId;
+    audit.link = edited?.link || post.link;
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              message: "Post edited successfully",
+              id: input.postId,
+              link: audit.link,
+              ...(redactions.length > 0 && { redactions }),
+              quotaRemaining: this.quota?.remaining,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
 
-      if (!response.ok) {
-        const errorData = (await response.json()) as ApiErrorResponse;
+  private async handleDeletePost(input: DeletePostInput, audit: AuditRecord = {}) {
+    const post = await this.fetchOwnPost("delete_post", "delete", input.postId, input.site);
+    const isQuestion = post.post_type === "question";
+
+    // Stack Exchange refuses these; say why before spending a request on it
+    if (isQuestion) {
+      const answers = await this.fetchAnswers(input.postId, { site: input.site, cacheMode: "bypass" });
+      if (answers.some((answer) => answer.is_accepted || answer.score > 0)) {
         throw new McpError(
           ErrorCode.InvalidRequest,
-          `Stack Overflow API error: ${errorData.error_message} (${errorData.error_id})`
+          "Refusing to delete: the question has upvoted or accepted answers, so it can no longer be deleted by its author"
         );
       }
-
-      const data = await response.json();
-      return data.items || [];
-    } catch (error) {
-      if (error instanceof McpError) {
-        throw error;
+    } else {
+      const answer = await this.fetchAnswer(input.postId, { site: input.site, cacheMode: "bypass" });
+      if (answer?.is_accepted) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          "Refusing to delete: accepted answers cannot be deleted"
+        );
       }
-
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to fetch comments: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
     }
-  }
 
-  private async fetchQuestion(questionId: number): Promise<StackOverflowQuestion | undefined> {
     const params = new URLSearchParams({
-      site: "stackoverflow",
-      filter: DEFAULT_FILTER,
+      site: input.site || this.defaultSite,
+      key: this.apiKey as string,
+      access_token: this.accessToken as string,
     });
+    const path = `/${isQuestion ? "questions" : "answers"}/${input.postId}/delete`;
+    const held = this.holdWrite(
+      "delete_post",
+      input,
+      path,
+      params,
+      `Delete ${post.post_type} ${input.postId}: ${decodeHtmlEntities(post.title || "")}`,
+      {},
+      audit
+    );
+    if (held) {
+      return held;
+    }
 
-    if (this.apiKey) params.append("key", this.apiKey);
-    if (this.accessToken) params.append("access_token", this.accessToken);
+    await this.apiRequest(path, params, { post: true, errorPrefix: "Failed to delete post" });
+    await this.cache.invalidatePosts([input.postId]);
+    this.notifyPostsUpdated([input.postId]);
+    audit.responseId = input.postId;
+    audit.link = post.link;
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              message: "Post deleted successfully",
+              id: input.postId,
+              quotaRemaining: this.quota?.remaining,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
 
-    const response = await this.withRateLimit(() =>
-      fetch(`${STACKOVERFLOW_API}/questions/${questionId}?${params}`)
-    );
-    if (!response.ok) {
-      const errorData = (await response.json()) as ApiErrorResponse;
+  private async handleAcceptAnswer(input: AcceptAnswerInput, audit: AuditRecord = {}) {
+    if (!input.undo && !input.confirmedFixed) {
       throw new McpError(
         ErrorCode.InvalidRequest,
-        `Stack Overflow API error: ${errorData.error_message} (${errorData.error_id})`
+        "Refusing to accept: confirmedFixed must be true"
       );
     }
-    const data = await response.json();
-    return (data.items && data.items[0]) || undefined;
-  }
+    const action = input.undo ? "undo the acceptance" : "accept";
 
-  private ensureWriteAccess() {
-    if (!this.apiKey || !this.accessToken) {
+    const question = await this.fetchOwnPost("accept_answer", action, input.questionId, input.site);
+    if (question.post_type !== "question") {
+      throw new McpError(ErrorCode.InvalidParams, `Post ${input.questionId} is not a question`);
+    }
+    const answer = await this.fetchAnswer(input.answerId, { site: input.site, cacheMode: "bypass" });
+    if (!answer) {
+      throw new McpError(ErrorCode.InvalidRequest, "Answer not found");
+    }
+    if (answer.question_id !== input.questionId) {
       throw new McpError(
         ErrorCode.InvalidRequest,
-        "Write operations require STACKOVERFLOW_API_KEY and STACKOVERFLOW_ACCESS_TOKEN"
+        `Refusing to ${action}: answer ${input.answerId} belongs to question ${answer.question_id}, not ${input.questionId}`
       );
     }
-  }
-
-  private async handlePostQuestion(input: PostQuestionInput) {
-    // Enforce strict policy: require 3+ approaches and no similar existing results
-    const similar = await this.searchStackOverflow(input.errorSignature, input.tags, {
-      minScore: 0,
-      limit: 3,
-      includeComments: false,
-    });
-    if (similar.length > 0) {
+    if (answer.is_accepted !== Boolean(input.undo)) {
       throw new McpError(
         ErrorCode.InvalidRequest,
-        "Refusing to post: similar questions already exist for the provided errorSignature"
+        input.undo
+          ? "Refusing to undo the acceptance: the answer is not accepted"
+          : "Refusing to accept: the answer is already accepted"
       );
     }
 
-    this.ensureWriteAccess();
-
     const params = new URLSearchParams({
-      site: "stackoverflow",
-      title: input.title,
-      body: input.body,
-      tags: input.tags.join(";"),
+      site: input.site || this.defaultSite,
       key: this.apiKey as string,
       access_token: this.accessToken as string,
     });
-
-    const response = await this.withRateLimit(() =>
-      fetch(`${STACKOVERFLOW_API}/questions/add`, {
-        method: "POST",
-        headers: { "Content-Type": "application/x-www-form-urlencoded" },
-        body: params,
-      })
+    const path = `/answers/${input.answerId}/accept${input.undo ? "/undo" : ""}`;
+    const held = this.holdWrite(
+      "accept_answer",
+      input,
+      path,
+      params,
+      `${input.undo ? "Undo acceptance of" : "Accept"} answer ${input.answerId} on: ${decodeHtmlEntities(
+        question.title || ""
+      )}`,
+      {},
+      audit
     );
-
-    if (!response.ok) {
-      const errorData = (await response.json()) as ApiErrorResponse;
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Failed to post question: ${errorData.error_message} (${errorData.error_id})`
-      );
+    if (held) {
+      return held;
     }
-    const data = await response.json();
-    const created = data.items && data.items[0];
+
+    await this.apiRequest(path, params, {
+      post: true,
+      errorPrefix: input.undo ? "Failed to undo the acceptance" : "Failed to accept answer",
+    });
+    await this.cache.invalidatePosts([input.questionId, input.answerId]);
+    this.notifyPostsUpdated([input.questionId, input.answerId]);
+    audit.link = answer.link;
     return {
       content: [
         {
           type: "text",
-          text: JSON.stringify(
-            {
-              message: "Question posted successfully",
-              id: created?.question_id,
-              link: created?.link,
-              triedApproaches: input.triedApproaches,
-            },
-            null,
-            2
-          ),
+          text: input.undo ? "Acceptance withdrawn successfully" : "Answer accepted successfully",
         },
       ],
     };
   }
 
-  private async handlePostSolution(input: PostSolutionInput) {
-    if (!input.confirmedResolved) {
+  private async handleUndoVote(input: UndoVoteInput, audit: AuditRecord = {}) {
+    if (!input.confirmedMistake) {
       throw new McpError(
         ErrorCode.InvalidRequest,
-        "Refusing to post: confirmedResolved must be true"
+        "Refusing to undo the vote: confirmedMistake must be true"
       );
     }
-    if (!Array.isArray(input.evidence) || input.evidence.length === 0) {
+    if (!input.reason || !input.reason.trim()) {
+      throw new McpError(ErrorCode.InvalidParams, "Refusing to undo the vote: reason is required");
+    }
+    const vote = input.vote || "upvote";
+    if (vote !== "upvote" && vote !== "downvote") {
+      throw new McpError(ErrorCode.InvalidParams, "vote must be upvote or downvote");
+    }
+    await this.preflightWrite("undo_vote", input.site);
+
+    const params = new URLSearchParams({
+      site: input.site || this.defaultSite,
+      key: this.apiKey as string,
+      access_token: this.accessToken as string,
+    });
+    const path = `/posts/${input.postId}/${vote}/undo`;
+    const held = this.holdWrite(
+      "undo_vote",
+      input,
+      path,
+      params,
+      `Undo ${vote} on post ${input.postId}\n\n**Reason:** ${input.reason}`,
+      { reason: input.reason },
+      audit
+    );
+    if (held) {
+      return held;
+    }
+
+    await this.apiRequest(path, params, { post: true, errorPrefix: "Failed to undo the vote" });
+    await this.cache.invalidatePosts([input.postId]);
+    this.notifyPostsUpdated([input.postId]);
+    return {
+      content: [{ type: "text", text: "Vote withdrawn successfully" }],
+    };
+  }
+
+  private async handleDownvote(input: DownvoteInput, audit: AuditRecord = {}) {
+    if (!input.verifiedWrong) {
       throw new McpError(
-        ErrorCode.InvalidParams,
-        "Refusing to post: evidence is required"
+        ErrorCode.InvalidRequest,
+        "Refusing to downvote: verifiedWrong must be true"
       );
     }
-
-    // Enforce: do not post if a similar/accepted solution exists (approximation)
-    const question = await this.fetchQuestion(input.questionId);
-    if (!question) {
-      throw new McpError(ErrorCode.InvalidRequest, "Question not found");
+    if (!Array.isArray(input.evidence) || input.evidence.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, "Refusing to downvote: evidence is required");
     }
-    if (question.accepted_answer_id || question.answer_count > 0) {
+    const account = await this.preflightWrite("downvote", input.site);
+    const post = await this.fetchPost(input.answerId, input.site);
+    if (!post) {
+      throw new McpError(ErrorCode.InvalidRequest, "Post not found");
+    }
+    if (post.post_type !== "answer") {
       throw new McpError(
         ErrorCode.InvalidRequest,
-        "Refusing to post: the question already has answers (or an accepted one)"
+        "Refusing to downvote: only answers verified to be wrong or harmful can be downvoted"
       );
     }
-
-    this.ensureWriteAccess();
+    if (post.owner?.user_id === account.user.user_id) {
+      throw new McpError(ErrorCode.InvalidRequest, "Refusing to downvote: the answer is your own");
+    }
 
     const params = new URLSearchParams({
-      site: "stackoverflow",
-      body: input.body,
+      site: input.site || this.defaultSite,
       key: this.apiKey as string,
       access_token: this.accessToken as string,
     });
-
-    const response = await this.withRateLimit(() =>
-      fetch(`${STACKOVERFLOW_API}/questions/${input.questionId}/answers/add`, {
-        method: "POST",
-        headers: { "Content-Type": "application/x-www-form-urlencoded" },
-        body: params,
-      })
+    const path = `/posts/${input.answerId}/downvote`;
+    const held = this.holdWrite(
+      "downvote",
+      input,
+      path,
+      params,
+      `Downvote answer ${input.answerId} to: ${decodeHtmlEntities(post.title || "")}`,
+      { evidence: input.evidence },
+      audit
     );
-
-    if (!response.ok) {
-      const errorData = (await response.json()) as ApiErrorResponse;
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Failed to post answer: ${errorData.error_message} (${errorData.error_id})`
-      );
+    if (held) {
+      return held;
     }
-    const data = await response.json();
-    const created = data.items && data.items[0];
+
+    await this.apiRequest(path, params, { post: true, errorPrefix: "Failed to downvote" });
+    await this.cache.invalidatePosts([input.answerId]);
+    this.notifyPostsUpdated([input.answerId]);
+    return {
+      content: [{ type: "text", text: "Downvote submitted successfully" }],
+    };
+  }
+
+  private async fetchFlagOptions(postId: number, site?: string): Promise<FlagOption[]> {
+    const params = new URLSearchParams({
+      site: site || this.defaultSite,
+      key: this.apiKey as string,
+      access_token: this.accessToken as string,
+    });
+    const data = await this.apiRequest<FlagOption>(`/posts/${postId}/flags/options`, params, {
+      errorPrefix: "Failed to load the flag options",
+    });
+    return flattenFlagOptions(data.items || []);
+  }
+
+  private async handleFlagOptions(input: FlagPostInput) {
+    await this.preflightWrite("flag_post", input.site);
+    const options = await this.fetchFlagOptions(input.postId, input.site);
     return {
       content: [
         {
           type: "text",
           text: JSON.stringify(
             {
-              message: "Answer posted successfully",
-              id: created?.answer_id,
-              link: created?.link,
-              evidence: input.evidence,
+              message: "Nothing was flagged. Call flag_post again with one of these optionId values",
+              postId: input.postId,
+              options: options.map((option) => ({
+                optionId: option.option_id,
+                title: option.title,
+                description: option.description,
+                requiresComment: option.requires_comment,
+                hasFlagged: option.has_flagged,
+                ...((option.requires_site || option.requires_question_id) && { supported: false }),
+              })),
             },
             null,
             2
@@ -750,112 +3155,207 @@ export class StackOverflowServer {
     };
   }
 
-  private async handleThumbsUp(input: ThumbsUpInput) {
-    if (!input.confirmedFixed) {
+  private async handleFlagPost(input: FlagPostInput, audit: AuditRecord = {}) {
+    if (!input.reason || !input.reason.trim()) {
+      throw new McpError(ErrorCode.InvalidParams, "Refusing to flag: reason is required");
+    }
+    if (!Array.isArray(input.evidence) || input.evidence.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, "Refusing to flag: evidence is required");
+    }
+    const { fields, findings: redactions } = this.redactForPosting(
+      { comment: input.comment || "" },
+      "flag"
+    );
+    await this.preflightWrite("flag_post", input.site);
+
+    const option = (await this.fetchFlagOptions(input.postId, input.site)).find(
+      (candidate) => candidate.option_id === input.optionId
+    );
+    if (!option) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown flag option ${input.optionId} for post ${input.postId}; call flag_post without optionId to list the options`
+      );
+    }
+    if (option.has_flagged) {
       throw new McpError(
         ErrorCode.InvalidRequest,
-        "Refusing to upvote: confirmedFixed must be true"
+        `Refusing to flag: you already flagged this post as "${option.title}"`
+      );
+    }
+    if (option.requires_site || option.requires_question_id) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Refusing to flag: "${option.title}" needs a target site or duplicate question, which flag_post does not support`
+      );
+    }
+    if (option.requires_comment && !fields.comment.trim()) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Refusing to flag: "${option.title}" requires a comment`
       );
     }
-    this.ensureWriteAccess();
 
     const params = new URLSearchParams({
-      site: "stackoverflow",
+      site: input.site || this.defaultSite,
+      option_id: option.option_id.toString(),
+      ...(fields.comment.trim() && { comment: fields.comment }),
       key: this.apiKey as string,
       access_token: this.accessToken as string,
     });
-
-    const response = await this.withRateLimit(() =>
-      fetch(`${STACKOVERFLOW_API}/posts/${input.postId}/upvote`, {
-        method: "POST",
-        headers: { "Content-Type": "application/x-www-form-urlencoded" },
-        body: params,
-      })
+    const path = `/posts/${input.postId}/flags/add`;
+    const held = this.holdWrite(
+      "flag_post",
+      input,
+      path,
+      params,
+      `Flag post ${input.postId}: ${option.title}${
+        fields.comment.trim() ? `\n\n${fields.comment}` : ""
+      }\n\n**Reason:** ${input.reason}`,
+      { evidence: input.evidence, ...(redactions.length > 0 && { redactions }) },
+      audit
     );
-    if (!response.ok) {
-      const errorData = (await response.json()) as ApiErrorResponse;
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Failed to upvote: ${errorData.error_message} (${errorData.error_id})`
-      );
+    if (held) {
+      return held;
     }
+
+    await this.apiRequest(path, params, { post: true, errorPrefix: "Failed to flag post" });
     return {
-      content: [
-        { type: "text", text: "Upvote submitted successfully" },
-      ],
+      content: [{ type: "text", text: "Flag submitted successfully" }],
     };
   }
 
-  private async handleCommentSolution(input: CommentSolutionInput) {
-    // Only if the question has no accepted solution
-    const question = await this.fetchQuestion(input.questionId);
-    if (!question) {
-      throw new McpError(ErrorCode.InvalidRequest, "Question not found");
+  /**
+   * Federated search: runs `search` on every site and merges the results by question score
+   */
+  private async searchSites(
+    sites: string[],
+    limit: number | undefined,
+    search: (site: string) => Promise<SearchResult[]>
+  ): Promise<SearchResult[]> {
+    const merged: SearchResult[] = [];
+    const pages: PageInfo[] = [];
+    for (const site of [...new Set(sites)]) {
+      const results = await search(site);
+      merged.push(...results);
+      const info = this.searchPages.get(results);
+      if (info) pages.push(info);
     }
-    if (question.accepted_answer_id) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        "Refusing to comment: question already has an accepted answer"
-      );
+    merged.sort((a, b) => b.question.score - a.question.score);
+    const kept = limit ? merged.slice(0, limit) : merged;
+
+    // Each site serves the same page; there is more if any site has more
+    if (pages.length > 0) {
+      const totals = pages.map((info) => info.total);
+      this.withPageInfo(kept, {
+        page: pages[0].page,
+        pageSize: pages[0].pageSize,
+        hasMore: pages.some((info) => info.hasMore) || kept.length < merged.length,
+        ...(totals.every((total) => total !== undefined) && {
+          total: (totals as number[]).reduce((sum, total) => sum + total, 0),
+        }),
+      });
     }
+    return kept;
+  }
 
-    this.ensureWriteAccess();
-
+  private async handleListSites(args: ListSitesInput) {
     const params = new URLSearchParams({
-      site: "stackoverflow",
-      body: input.body,
-      key: this.apiKey as string,
-      access_token: this.accessToken as string,
+      filter: SITE_FILTER,
     });
 
-    const response = await this.withRateLimit(() =>
-      fetch(`${STACKOVERFLOW_API}/posts/${input.questionId}/comments/add`, {
-        method: "POST",
-        headers: { "Content-Type": "application/x-www-form-urlencoded" },
-        body: params,
-      })
+    const items = await this.fetchAllPages<StackExchangeSite>(
+      "sites",
+      "/sites",
+      params,
+      args.cacheMode
     );
-    if (!response.ok) {
-      const errorData = (await response.json()) as ApiErrorResponse;
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Failed to post comment: ${errorData.error_message} (${errorData.error_id})`
-      );
-    }
-    const data = await response.json();
-    const created = data.items && data.items[0];
+
+    const query = args.query?.toLowerCase();
+    const sites = items
+      .filter((site) => args.includeMeta || site.site_type !== "meta_site")
+      .filter(
+        (site) =>
+          !query ||
+          site.name.toLowerCase().includes(query) ||
+          site.api_site_parameter.includes(query)
+      )
+      .map((site) => ({
+        site: site.api_site_parameter,
+        name: site.name,
+        url: site.site_url,
+        type: site.site_type,
+      }));
+
     return {
       content: [
         {
           type: "text",
-          text: JSON.stringify(
-            { message: "Comment posted successfully", id: created?.comment_id },
-            null,
-            2
-          ),
+          text: JSON.stringify({ defaultSite: this.defaultSite, sites }, null, 2),
         },
       ],
     };
   }
 
+  /**
+   * Converts question, answer and comment bodies (and titles) from API HTML to `bodyFormat`
+   */
+  private convertBodies(results: SearchResult[], bodyFormat: BodyFormat): SearchResult[] {
+    const convertComments = (comments: StackOverflowComment[]) =>
+      comments.map((comment) => ({ ...comment, body: convertBody(comment.body, bodyFormat) }));
+
+    return results.map((result) => ({
+      ...result,
+      question: {
+        ...result.question,
+        title: decodeHtmlEntities(result.question.title),
+        body: convertBody(result.question.body, bodyFormat),
+      },
+      answers: result.answers.map((answer) => ({
+        ...answer,
+        body: convertBody(answer.body, bodyFormat),
+      })),
+      ...(result.comments && {
+        comments: {
+          question: convertComments(result.comments.question),
+          answers: Object.fromEntries(
+            Object.entries(result.comments.answers).map(([answerId, comments]) => [
+              answerId,
+              convertComments(comments),
+            ])
+          ),
+        },
+      }),
+    }));
+  }
+
   private formatResponse(
     results: SearchResult[],
-    format: "json" | "markdown" = "json"
+    format: "json" | "markdown" = "json",
+    bodyFormat: BodyFormat = "html"
   ): string {
     if (format === "json") {
-      return JSON.stringify(results, null, 2);
+      return JSON.stringify(
+        bodyFormat === "html" ? results : this.convertBodies(results, bodyFormat),
+        null,
+        2
+      );
     }
 
-    return results
+    return this.convertBodies(results, "markdown")
       .map((result) => {
         let markdown = `# ${result.question.title}\n\n`;
-        markdown += `**Score:** ${result.question.score} | **Answers:** ${result.question.answer_count}\n\n`;
+        markdown += `**Score:** ${result.question.score} | **Answers:** ${result.question.answer_count}`;
+        if (result.site && result.site !== DEFAULT_SITE) {
+          markdown += ` | **Site:** ${result.site}`;
+        }
+        markdown += "\n\n";
         markdown += `## Question\n\n${result.question.body}\n\n`;
 
         if (result.comments?.question) {
           markdown += "### Question Comments\n\n";
           result.comments.question.forEach((comment: StackOverflowComment) => {
-            markdown += `- ${comment.body} *(Score: ${comment.score})*\n`;
+            markdown += `- ${comment.body.replace(/\n+/g, " ")} *(Score: ${comment.score})*\n`;
           });
           markdown += "\n";
         }
@@ -871,7 +3371,7 @@ export class StackOverflowServer {
             markdown += "#### Answer Comments\n\n";
             result.comments.answers[answer.answer_id].forEach(
               (comment: StackOverflowComment) => {
-                markdown += `- ${comment.body} *(Score: ${comment.score})*\n`;
+                markdown += `- ${comment.body.replace(/\n+/g, " ")} *(Score: ${comment.score})*\n`;
               }
             );
             markdown += "\n";
@@ -885,40 +3385,180 @@ export class StackOverflowServer {
   }
 
   private async handleSearchByError(args: SearchByErrorInput) {
+    const { text: errorMessage, findings: messageRedactions } = this.redactor.redact(
+      args.errorMessage
+    );
+    const { input: redacted, findings: filterRedactions } = this.redactSearchFilters(args);
+    const redactions = mergeFindings(messageRedactions, filterRedactions);
     const tags = [
       ...(args.language ? [args.language.toLowerCase()] : []),
       ...(args.technologies || []),
     ];
 
-    const results = await this.searchStackOverflow(
-      args.errorMessage,
-      tags.length > 0 ? tags : undefined,
-      {
+    const { page, limit, tier: pinnedTier } = resolvePage(args);
+    const filters = pickSearchFilters(redacted);
+    const search = (tier: QueryTier, site?: string) =>
+      this.searchStackOverflow(tier.query, tier.tags, {
         minScore: args.minScore,
-        limit: args.limit,
+        limit,
         includeComments: args.includeComments,
+        cacheMode: args.cacheMode,
+        ...(site && { site }),
+        ...(page > 1 && { page }),
+        ...(filters && { filters }),
+      });
+
+    // A cursor keeps paging the tier that matched on the first page
+    const tiers = buildQueryTiers(errorMessage, tags);
+    const pinned = tiers.filter((tier) => tier.name === pinnedTier);
+
+    // Stop at the first tier with enough results, otherwise keep the best one
+    const enough = Math.min(args.minResults ?? DEFAULT_MIN_RESULTS, limit ?? Infinity);
+    const tried: QueryTierName[] = [];
+    let best: { tier: QueryTier; results: SearchResult[] } | undefined;
+
+    for (const tier of pinned.length > 0 ? pinned : tiers) {
+      tried.push(tier.name);
+      const results =
+        args.sites && args.sites.length > 0
+          ? await this.searchSites(args.sites, limit, (site) => search(tier, site))
+          : await search(tier, args.site);
+
+      if (!best || results.length > best.results.length) {
+        best = { tier, results };
       }
-    );
+      if (results.length >= enough) {
+        break;
+      }
+    }
+
+    const results = best?.results || [];
+    const match = best && {
+      tier: best.tier.name,
+      query: best.tier.query,
+      ...(best.tier.tags && { tags: best.tier.tags }),
+      tried,
+    };
+    const pagination = this.paginationOf(results, best?.tier.name);
+    const ranked = this.rerank(results, { query: errorMessage, tags }, args.sort);
+    const ranking = args.explain ? ranked : undefined;
 
     return {
       content: [
         {
           type: "text",
-          text: this.formatResponse(results, args.responseFormat),
+          text: this.formatResponse(this.ordered(results, ranked), args.responseFormat, args.bodyFormat),
+        },
+        {
+          type: "text",
+          text:
+            args.responseFormat === "markdown"
+              ? `**Matched query tier:** ${match?.tier ?? "none"}${
+                  match ? ` (\`${match.query}\`)` : ""
+                } | **Tried:** ${tried.join(", ")}${
+                  redactions.length > 0 ? ` | **Redacted:** ${describeFindings(redactions)}` : ""
+                }${pagination ? ` | ${this.formatPagination(pagination)}` : ""}${
+                  ranking ? `\n\n${formatRankingExplanation(ranking, this.rankingWeights)}` : ""
+                }`
+              : JSON.stringify(
+                  {
+                    match,
+                    pagination,
+                    ...(redactions.length > 0 && { redactions }),
+                    ...(ranking && { ranking: explainRanking(ranking, this.rankingWeights) }),
+                  },
+                  null,
+                  2
+                ),
         },
       ],
     };
   }
 
+  /**
+   * Composite relevance order; an explicit `sort` keeps the API order instead
+   */
+  private rerank(
+    results: SearchResult[],
+    context: RankingContext,
+    sort?: string
+  ): RankedResult[] | undefined {
+    return sort ? undefined : rankResults(results, context, this.rankingWeights);
+  }
+
+  private ordered(results: SearchResult[], ranked?: RankedResult[]): SearchResult[] {
+    return ranked ? ranked.map((item) => item.result) : results;
+  }
+
   private async handleSearchByTags(args: SearchByTagsInput) {
+    const { input: redacted, findings: redactions } = this.redactSearchFilters(args);
+    const { page, limit } = resolvePage(args);
+    const paged = { ...redacted, page, limit };
+    const results =
+      args.sites && args.sites.length > 0
+        ? await this.searchSites(args.sites, limit, (site) =>
+            this.searchByTagsOnSite({ ...paged, site })
+          )
+        : await this.searchByTagsOnSite(paged);
+    const pagination = this.paginationOf(results);
+    const ranked = this.rerank(results, { tags: args.tags }, args.sort);
+    const ranking = args.explain ? ranked : undefined;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: this.formatResponse(this.ordered(results, ranked), args.responseFormat, args.bodyFormat),
+        },
+        ...(pagination || ranking || redactions.length > 0
+          ? [
+              {
+                type: "text",
+                text:
+                  args.responseFormat === "markdown"
+                    ? [
+                        pagination && this.formatPagination(pagination),
+                        redactions.length > 0 && `**Redacted:** ${describeFindings(redactions)}`,
+                        ranking && formatRankingExplanation(ranking, this.rankingWeights),
+                      ]
+                        .filter(Boolean)
+                        .join("\n\n")
+                    : JSON.stringify(
+                        {
+                          pagination,
+                          ...(redactions.length > 0 && { redactions }),
+                          ...(ranking && { ranking: explainRanking(ranking, this.rankingWeights) }),
+                        },
+                        null,
+                        2
+                      ),
+              },
+            ]
+          : []),
+      ],
+    };
+  }
+
+  private formatPagination(pagination: Pagination) {
+    return `**Page:** ${pagination.page}${
+      pagination.total !== undefined ? ` (${pagination.total} total)` : ""
+    }${pagination.nextCursor ? ` | **Next cursor:** \`${pagination.nextCursor}\`` : ""}`;
+  }
+
+  private async searchByTagsOnSite(args: SearchByTagsInput): Promise<SearchResult[]> {
+    const filters = pickSearchFilters(this.redactSearchFilters(args).input);
+    // /questions only sorts and takes dates; anything else needs /search/advanced
+    const advanced = filters !== undefined && needsAdvancedSearch(filters);
     const params = new URLSearchParams({
-      site: "stackoverflow",
+      site: args.site || this.defaultSite,
       sort: "votes",
       order: "desc",
       filter: "!nKzQUR30W7",
       tagged: args.tags.join(";"),
-      ...(args.limit && { pagesize: args.limit.toString() }),
+      ...(filters && searchFilterParams(filters)),
     });
+    const page = args.page || 1;
+    const pageSize = args.limit || DEFAULT_PAGE_SIZE;
 
     if (this.apiKey) {
       params.append("key", this.apiKey);
@@ -929,60 +3569,31 @@ export class StackOverflowServer {
     }
 
     try {
-      const response = await this.withRateLimit(() =>
-        fetch(`${STACKOVERFLOW_API}/questions?${params}`)
+      return await this.withBackend(
+        args.site || this.defaultSite,
+        async () => {
+          const { items, info } = await this.fetchPage<StackOverflowQuestion>(
+            advanced ? "search" : "questions",
+            advanced ? "/search/advanced" : "/questions",
+            params,
+            page,
+            pageSize,
+            args.cacheMode
+          );
+          return this.withPageInfo(await this.buildSearchResults(items, args), info);
+        },
+        (index) =>
+          this.offlinePage(
+            index.searchByTags(args.tags, {
+              ...args,
+              filters,
+              offset: (page - 1) * pageSize,
+              limit: pageSize + 1,
+            }),
+            page,
+            pageSize
+          )
       );
-
-      if (!response.ok) {
-        const errorData = (await response.json()) as ApiErrorResponse;
-        throw new McpError(
-          ErrorCode.InvalidRequest,
-          `Stack Overflow API error: ${errorData.error_message} (${errorData.error_id})`
-        );
-      }
-
-      const data = await response.json();
-      const results: SearchResult[] = [];
-
-      for (const question of data.items) {
-        if (args.minScore && question.score < args.minScore) {
-          continue;
-        }
-
-        const answers = await this.fetchAnswers(question.question_id);
-        let comments: SearchResultComments | undefined;
-
-        if (args.includeComments) {
-          const answersMap: { [key: number]: StackOverflowComment[] } = {};
-          comments = {
-            question: await this.fetchComments(question.question_id),
-            answers: answersMap,
-          };
-
-          for (const answer of answers) {
-            if (answer.answer_id !== undefined) {
-              comments.answers[answer.answer_id] = await this.fetchComments(
-                answer.answer_id
-              );
-            }
-          }
-        }
-
-        results.push({
-          question,
-          answers,
-          ...(args.includeComments && { comments }),
-        });
-      }
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: this.formatResponse(results, args.responseFormat),
-          },
-        ],
-      };
     } catch (error) {
       if (error instanceof McpError) {
         throw error;
@@ -997,37 +3608,235 @@ export class StackOverflowServer {
     }
   }
 
-  private async handleAnalyzeStackTrace(args: StackTraceInput) {
-    // Extract key error message from stack trace
-    const errorLines = args.stackTrace.split("\n");
-    const errorMessage = errorLines[0]; // Usually first line contains the main error
+  private async handleGetQuestion(args: GetQuestionInput) {
+    const refs = [...(args.id !== undefined ? [args.id] : []), ...(args.ids || [])].map(
+      (value) => {
+        const ref = parsePostReference(value);
+        if (!ref) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Not a question id or Stack Exchange link: ${value}`
+          );
+        }
+        return ref;
+      }
+    );
 
-    const results = await this.searchStackOverflow(
-      errorMessage,
-      [args.language.toLowerCase()],
-      {
+    // Answer links open the thread they belong to
+    const idsBySite = new Map<string, number[]>();
+    for (const ref of refs) {
+      const site = ref.site || args.site || this.defaultSite;
+      let questionId = ref.id;
+      if (ref.kind === "answer") {
+        const answer = await this.fetchAnswer(ref.id, { site, cacheMode: args.cacheMode });
+        if (!answer) {
+          throw new McpError(ErrorCode.InvalidParams, `Answer ${ref.id} not found`);
+        }
+        questionId = answer.question_id;
+      }
+      idsBySite.set(site, [...(idsBySite.get(site) || []), questionId]);
+    }
+
+    const results: SearchResult[] = [];
+    const missing: string[] = [];
+    for (const [site, ids] of idsBySite) {
+      const found = await this.fetchThreads(ids, {
+        site,
+        cacheMode: args.cacheMode,
+        includeComments: args.includeComments,
+      });
+      results.push(...found);
+      const foundIds = new Set(found.map((result) => result.question.question_id));
+      missing.push(
+        ...ids
+          .filter((id) => !foundIds.has(id))
+          .map((id) => (site === this.defaultSite ? `${id}` : `${id} (${site})`))
+      );
+    }
+
+    if (results.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Question not found: ${missing.join(", ")}`);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: this.formatResponse(results, args.responseFormat, args.bodyFormat),
+        },
+        ...(missing.length > 0
+          ? [{ type: "text", text: `Questions not found: ${missing.join(", ")}` }]
+          : []),
+      ],
+    };
+  }
+
+  /**
+   * Full threads for the given questions in request order, answers sorted with the accepted one pinned
+   */
+  private async fetchThreads(
+    questionIds: number[],
+    options: FetchOptions & { includeComments?: boolean }
+  ): Promise<SearchResult[]> {
+    const ids = [...new Set(questionIds)];
+    const params = new URLSearchParams({
+      site: options.site || this.defaultSite,
+      filter: DEFAULT_FILTER,
+    });
+
+    const results = await this.withBackend(
+      options.site || this.defaultSite,
+      async () => {
+        const questions = await this.fetchByIds<StackOverflowQuestion>(
+          "questions",
+          (batch) => `/questions/${batch}`,
+          ids,
+          params,
+          options.cacheMode
+        );
+        return this.buildSearchResults(questions, options);
+      },
+      (index) => index.getResults(ids, options)
+    );
+
+    return results
+      .map((result) => ({ ...result, answers: sortAnswers(result.answers) }))
+      .sort(
+        (a, b) => ids.indexOf(a.question.question_id) - ids.indexOf(b.question.question_id)
+      );
+  }
+
+  private async handleAnalyzeStackTrace(args: StackTraceInput) {
+    const limit = resolveLimit(args.limit);
+    const { text: stackTrace, findings: redactions } = this.redactor.redact(args.stackTrace);
+    const analysis = parseStackTrace(stackTrace, args.language);
+    const queries = buildTraceQueries(analysis);
+
+    // Most specific query first; stop once enough distinct questions were found
+    const results: SearchResult[] = [];
+    const seen = new Set<number>();
+    for (const query of queries) {
+      const found = await this.searchStackOverflow(query, [args.language.toLowerCase()], {
         minScore: 0,
-        limit: args.limit,
+        limit,
         includeComments: args.includeComments,
+        cacheMode: args.cacheMode,
+        ...(args.site && { site: args.site }),
+      });
+      for (const result of found) {
+        if (!seen.has(result.question.question_id)) {
+          seen.add(result.question.question_id);
+          results.push(result);
+        }
       }
-    );
+      if (limit && results.length >= limit) {
+        break;
+      }
+    }
+
+    const root = analysis.rootCause || analysis;
+    const ranked = this.rerank(limit ? results.slice(0, limit) : results, {
+      query: [root.exceptionType, root.message].filter(Boolean).join(": "),
+      tags: [args.language],
+    });
+    const ranking = args.explain ? ranked : undefined;
 
     return {
       content: [
         {
           type: "text",
-          text: this.formatResponse(results, args.responseFormat),
+          text: this.formatResponse(
+            this.ordered(results.slice(0, limit || results.length), ranked),
+            args.responseFormat,
+            args.bodyFormat
+          ),
+        },
+        {
+          type: "text",
+          text:
+            args.responseFormat === "markdown"
+              ? `${this.formatTraceAnalysis(analysis, queries, redactions)}${
+                  ranking ? `\n\n${formatRankingExplanation(ranking, this.rankingWeights)}` : ""
+                }`
+              : JSON.stringify(
+                  {
+                    analysis,
+                    queries,
+                    ...(redactions.length > 0 && { redactions }),
+                    ...(ranking && { ranking: explainRanking(ranking, this.rankingWeights) }),
+                  },
+                  null,
+                  2
+                ),
         },
       ],
     };
   }
 
+  private formatTraceAnalysis(
+    analysis: ParsedStackTrace,
+    queries: string[],
+    redactions: RedactionFinding[]
+  ): string {
+    const describe = (exceptionType: string | undefined, message: string) =>
+      [exceptionType && `\`${exceptionType}\``, message].filter(Boolean).join(": ");
+    const frame = (item: StackFrame) =>
+      `- \`${item.function || item.file || item.raw}\`${
+        item.file && item.line ? ` (${item.file}:${item.line})` : ""
+      }${item.isUserCode ? "" : " *(framework)*"}`;
+
+    let markdown = `## Stack Trace Analysis (${analysis.language})\n\n`;
+    markdown += `**Exception:** ${describe(analysis.exceptionType, analysis.message)}\n\n`;
+    if (analysis.rootCause) {
+      markdown += `**Root cause:** ${describe(
+        analysis.rootCause.exceptionType,
+        analysis.rootCause.message
+      )}\n\n`;
+    }
+    if (analysis.frames.length > 0) {
+      markdown += `### Top Frames\n\n${analysis.frames.map(frame).join("\n")}\n\n`;
+    }
+    markdown += `### Queries\n\n${queries.map((query) => `- ${query}`).join("\n")}\n`;
+    if (redactions.length > 0) {
+      markdown += `\n**Redacted before searching:** ${describeFindings(redactions)}\n`;
+    }
+    return markdown;
+  }
+
   async run() {
+    const mode = (process.env.STACKOVERFLOW_MCP_TRANSPORT || "stdio") as TransportMode;
+
+    if (mode === "sse") {
+      const host = process.env.STACKOVERFLOW_MCP_HOST || DEFAULT_HTTP_HOST;
+      const port = process.env.STACKOVERFLOW_MCP_PORT
+        ? parseInt(process.env.STACKOVERFLOW_MCP_PORT, 10)
+        : DEFAULT_HTTP_PORT;
+
+      this.httpServer = await startHttpTransport(() => this.createServer(), {
+        host,
+        port,
+        authToken: process.env.STACKOVERFLOW_MCP_AUTH_TOKEN,
+      });
+      console.error(`Stack Overflow MCP server running on http://${host}:${port}/sse`);
+      return;
+    }
+
+    if (mode !== "stdio") {
+      throw new Error(`Unknown STACKOVERFLOW_MCP_TRANSPORT: ${mode}`);
+    }
+
     const transport = new StdioServerTransport();
+    this.server = this.createServer();
     await this.server.connect(transport);
     console.error("Stack Overflow MCP server running on stdio");
   }
 }
 
-const server = new StackOverflowServer();
-server.run().catch(console.error);
+runCli(process.argv.slice(2))
+  .then((handled) => {
+    if (!handled) {
+      const server = new StackOverflowServer();
+      return server.run();
+    }
+  })
+  .catch(console.error);
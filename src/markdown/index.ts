@@ -0,0 +1,321 @@
+import { BodyFormat } from "../types/index.js";
+
+interface TextNode {
+  type: "text";
+  text: string;
+}
+
+interface ElementNode {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = TextNode | ElementNode;
+
+interface RenderContext {
+  plain: boolean; // render plain text instead of Markdown
+}
+
+const VOID_TAGS = new Set(["br", "hr", "img", "input", "meta", "link", "wbr"]);
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "pre", "blockquote", "ul", "ol", "li", "table", "hr",
+  "h1", "h2", "h3", "h4", "h5", "h6",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  times: "×",
+  copy: "©",
+};
+
+export function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      // Out-of-range references such as &#x110000; are left as written
+      return isNaN(code) || code > 0x10ffff ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attrs[match[1].toLowerCase()] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+/**
+ * Parses HTML into a tree. Tolerates unclosed and stray closing tags,
+ * which is enough for the sanitized HTML the Stack Exchange API returns.
+ */
+function parseHtml(html: string): ElementNode {
+  const root: ElementNode = { type: "element", tag: "root", attrs: {}, children: [] };
+  const stack: ElementNode[] = [root];
+  const pattern = /<!--[\s\S]*?-->|<\/?([a-zA-Z][\w-]*)([^>]*)>|[^<]+|</g;
+
+  for (const match of html.matchAll(pattern)) {
+    const token = match[0];
+    const parent = stack[stack.length - 1];
+
+    if (token.startsWith("<!--")) {
+      continue;
+    }
+    if (!match[1]) {
+      parent.children.push({ type: "text", text: token });
+      continue;
+    }
+
+    const tag = match[1].toLowerCase();
+    if (token.startsWith("</")) {
+      const index = stack.map((node) => node.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    const node: ElementNode = {
+      type: "element",
+      tag,
+      attrs: parseAttributes(match[2]),
+      children: [],
+    };
+    parent.children.push(node);
+    if (!VOID_TAGS.has(tag) && !match[2].trimEnd().endsWith("/")) {
+      stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+function textContent(node: HtmlNode): string {
+  if (node.type === "text") {
+    return decodeHtmlEntities(node.text);
+  }
+  if (node.tag === "br") {
+    return "\n";
+  }
+  return node.children.map(textContent).join("");
+}
+
+/**
+ * Language hint from Stack Exchange classes: `lang-js` on <pre>, `language-javascript` on <code>
+ */
+function codeLanguage(pre: ElementNode): string {
+  const code = pre.children.find(
+    (child): child is ElementNode => child.type === "element" && child.tag === "code"
+  );
+  const classes = `${pre.attrs.class || ""} ${code?.attrs.class || ""}`.split(/\s+/);
+  for (const name of classes) {
+    const match = /^(?:lang|language)-(.+)$/.exec(name);
+    if (match && match[1] !== "none") {
+      return match[1];
+    }
+  }
+  return "";
+}
+
+function fence(content: string): string {
+  const longest = Math.max(2, ...(content.match(/`+/g) || []).map((run) => run.length));
+  return "`".repeat(longest + 1);
+}
+
+function indent(text: string, prefix: string, firstPrefix = prefix): string {
+  return text
+    .split("\n")
+    .map((line, index) => (index === 0 ? firstPrefix : line ? prefix : "") + line)
+    .join("\n");
+}
+
+function renderChildren(node: ElementNode, ctx: RenderContext): string {
+  return node.children.map((child) => render(child, ctx)).join("");
+}
+
+function renderList(node: ElementNode, ctx: RenderContext): string {
+  const ordered = node.tag === "ol";
+  let number = parseInt(node.attrs.start || "1", 10);
+
+  const items = node.children
+    .filter((child): child is ElementNode => child.type === "element" && child.tag === "li")
+    .map((item) => {
+      const marker = ordered ? `${number++}. ` : "- ";
+      const content = renderChildren(item, ctx).trim().replace(/\n{3,}/g, "\n\n");
+      return indent(content, " ".repeat(marker.length), marker);
+    });
+
+  return `\n\n${items.join("\n")}\n\n`;
+}
+
+function renderTable(node: ElementNode, ctx: RenderContext): string {
+  const rows: string[][] = [];
+  const collect = (current: ElementNode) => {
+    for (const child of current.children) {
+      if (child.type !== "element") continue;
+      if (child.tag === "tr") {
+        rows.push(
+          child.children
+            .filter((cell): cell is ElementNode => cell.type === "element" && (cell.tag === "td" || cell.tag === "th"))
+            .map((cell) => renderChildren(cell, ctx).trim().replace(/\s*\n\s*/g, " ").replace(/\|/g, "\\|"))
+        );
+      } else {
+        collect(child);
+      }
+    }
+  };
+  collect(node);
+
+  if (rows.length === 0) {
+    return "";
+  }
+  if (ctx.plain) {
+    return `\n\n${rows.map((row) => row.join("\t")).join("\n")}\n\n`;
+  }
+
+  const width = Math.max(...rows.map((row) => row.length));
+  const line = (cells: string[]) =>
+    `| ${[...cells, ...Array(width - cells.length).fill("")].join(" | ")} |`;
+  return `\n\n${[
+    line(rows[0]),
+    line(Array(width).fill("---")),
+    ...rows.slice(1).map(line),
+  ].join("\n")}\n\n`;
+}
+
+function render(node: HtmlNode, ctx: RenderContext): string {
+  if (node.type === "text") {
+    return decodeHtmlEntities(node.text.replace(/\s+/g, " "));
+  }
+
+  const { tag } = node;
+  switch (tag) {
+    case "br":
+      return "\n";
+    case "hr":
+      return ctx.plain ? "\n\n" : "\n\n---\n\n";
+    case "p":
+    case "div":
+      return `\n\n${renderChildren(node, ctx).trim()}\n\n`;
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const text = renderChildren(node, ctx).trim();
+      return ctx.plain ? `\n\n${text}\n\n` : `\n\n${"#".repeat(Number(tag[1]))} ${text}\n\n`;
+    }
+    case "pre": {
+      const content = textContent(node).replace(/\n+$/, "");
+      if (ctx.plain) {
+        return `\n\n${content}\n\n`;
+      }
+      const marker = fence(content);
+      return `\n\n${marker}${codeLanguage(node)}\n${content}\n${marker}\n\n`;
+    }
+    case "code": {
+      const content = textContent(node);
+      if (ctx.plain) {
+        return content;
+      }
+      const marker = content.includes("`") ? "``" : "`";
+      const padding = marker.length > 1 ? " " : "";
+      return `${marker}${padding}${content}${padding}${marker}`;
+    }
+    case "a": {
+      const text = renderChildren(node, ctx).trim();
+      const href = node.attrs.href;
+      if (!href) return text;
+      if (ctx.plain) return text === href ? href : `${text} (${href})`;
+      return `[${text || href}](${href})`;
+    }
+    case "img": {
+      const alt = node.attrs.alt || "";
+      if (ctx.plain) return alt ? `${alt} (${node.attrs.src})` : node.attrs.src || "";
+      return `![${alt}](${node.attrs.src || ""})`;
+    }
+    case "strong":
+    case "b": {
+      const text = renderChildren(node, ctx);
+      return ctx.plain || !text.trim() ? text : `**${text}**`;
+    }
+    case "em":
+    case "i": {
+      const text = renderChildren(node, ctx);
+      return ctx.plain || !text.trim() ? text : `*${text}*`;
+    }
+    case "del":
+    case "s":
+    case "strike": {
+      const text = renderChildren(node, ctx);
+      return ctx.plain || !text.trim() ? text : `~~${text}~~`;
+    }
+    case "kbd":
+      return ctx.plain ? renderChildren(node, ctx) : `<kbd>${renderChildren(node, ctx)}</kbd>`;
+    case "ul":
+    case "ol":
+      return renderList(node, ctx);
+    case "blockquote": {
+      const content = renderChildren(node, ctx).trim().replace(/\n{3,}/g, "\n\n");
+      return `\n\n${indent(content, ctx.plain ? "  " : "> ").replace(/^$/gm, ctx.plain ? "" : ">")}\n\n`;
+    }
+    case "table":
+      return renderTable(node, ctx);
+    default:
+      return BLOCK_TAGS.has(tag)
+        ? `\n\n${renderChildren(node, ctx)}\n\n`
+        : renderChildren(node, ctx);
+  }
+}
+
+function tidy(text: string): string {
+  return text
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Converts a Stack Exchange HTML body to Markdown, keeping fenced code blocks
+ * with their language hints, inline code, links, lists, blockquotes and tables.
+ */
+export function htmlToMarkdown(html: string): string {
+  return tidy(render(parseHtml(html), { plain: false }));
+}
+
+/**
+ * Converts a Stack Exchange HTML body to plain text
+ */
+export function htmlToText(html: string): string {
+  return tidy(render(parseHtml(html), { plain: true }));
+}
+
+/**
+ * Renders a body in the requested format; "html" returns it unchanged
+ */
+export function convertBody(html: string, format: BodyFormat = "html"): string {
+  if (format === "markdown") return htmlToMarkdown(html);
+  if (format === "text") return htmlToText(html);
+  return html;
+}
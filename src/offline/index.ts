@@ -0,0 +1,375 @@
+import { createReadStream, existsSync } from "node:fs";
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { createInterface } from "node:readline";
+import {
+  OfflineIndexData,
+  OfflineSearchOptions,
+  SearchResult,
+  StackOverflowAnswer,
+  StackOverflowComment,
+  StackOverflowQuestion,
+} from "../types/index.js";
+import { decodeHtmlEntities } from "../markdown/index.js";
+import { matchesFilters } from "../query/index.js";
+
+const INDEX_VERSION = 1;
+
+// The index is built in memory and saved as a single JSON string, which V8 caps at about
+// 512 MiB. Dumps larger than this (Posts.xml plus Comments.xml) are refused before parsing.
+export const MAX_DUMP_BYTES = 256 * 1024 * 1024;
+const MAX_INDEX_BYTES = 480 * 1024 * 1024;
+
+function mebibytes(bytes: number): string {
+  return `${Math.ceil(bytes / (1024 * 1024))} MiB`;
+}
+
+async function fileSize(path: string): Promise<number> {
+  return existsSync(path) ? (await stat(path)).size : 0;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_WEIGHT = 3; // title terms count as this many body terms
+
+// Sites whose domain is <site>.com rather than <site>.stackexchange.com
+const DOT_COM_SITES = new Set([
+  "stackoverflow",
+  "serverfault",
+  "superuser",
+  "askubuntu",
+  "mathoverflow",
+]);
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "are", "was", "not",
+  "but", "have", "has", "you", "your", "can", "how", "what", "when", "why",
+  "into", "its", "our", "out", "use", "using", "get", "got", "is", "in",
+  "on", "of", "to", "it", "be", "as", "at", "by", "or", "an", "if", "do",
+]);
+
+/**
+ * Parses a dump line such as `<row Id="1" Title="..." />` into its attributes
+ */
+export function parseRow(line: string): Record<string, string> | undefined {
+  if (!line.trimStart().startsWith("<row ")) {
+    return undefined;
+  }
+  const attributes: Record<string, string> = {};
+  for (const match of line.matchAll(/(\w+)="([^"]*)"/g)) {
+    attributes[match[1]] = decodeHtmlEntities(match[2]);
+  }
+  return attributes;
+}
+
+/**
+ * Lowercased word tokens with HTML tags and stopwords removed
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/<[^>]+>/g, " ")
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+// Dumps use "<a><b>" for tags; newer dumps use "|a|b|"
+function parseTags(value = ""): string[] {
+  return value.split(/[<>|]/).filter(Boolean);
+}
+
+function toEpoch(value?: string): number {
+  return value ? Math.floor(Date.parse(`${value}Z`) / 1000) : 0;
+}
+
+export function siteUrl(site: string): string {
+  return DOT_COM_SITES.has(site)
+    ? `https://${site}.com`
+    : `https://${site}.stackexchange.com`;
+}
+
+async function forEachRow(
+  path: string,
+  handler: (row: Record<string, string>) => void
+): Promise<void> {
+  if (!existsSync(path)) {
+    return;
+  }
+  const lines = createInterface({
+    input: createReadStream(path, "utf8"),
+    crlfDelay: Infinity,
+  });
+  for await (const line of lines) {
+    const row = parseRow(line);
+    if (row) {
+      handler(row);
+    }
+  }
+}
+
+/**
+ * Imports Posts.xml, Comments.xml and Tags.xml from a Stack Exchange data dump
+ * directory and writes a full-text index to `indexPath`. Dumps over `maxDumpBytes`
+ * (default MAX_DUMP_BYTES) are refused.
+ */
+export async function importDump(
+  dumpDir: string,
+  indexPath: string,
+  site: string,
+  options: { maxDumpBytes?: number } = {}
+): Promise<OfflineIndexData> {
+  if (!existsSync(join(dumpDir, "Posts.xml"))) {
+    throw new Error(`Posts.xml not found in ${dumpDir}`);
+  }
+  const maxDumpBytes = options.maxDumpBytes ?? MAX_DUMP_BYTES;
+  const dumpBytes =
+    (await fileSize(join(dumpDir, "Posts.xml"))) + (await fileSize(join(dumpDir, "Comments.xml")));
+  if (dumpBytes > maxDumpBytes) {
+    throw new Error(
+      `Dump ${dumpDir} is ${mebibytes(dumpBytes)} (Posts.xml and Comments.xml); the offline index supports dumps up to ${mebibytes(
+        maxDumpBytes
+      )}. Import a smaller site's dump`
+    );
+  }
+
+  const baseUrl = siteUrl(site);
+  const data: OfflineIndexData = {
+    version: INDEX_VERSION,
+    site,
+    importedAt: Date.now(),
+    questions: {},
+    answers: {},
+    comments: {},
+    tags: {},
+    postings: {},
+    docLengths: {},
+  };
+
+  await forEachRow(join(dumpDir, "Posts.xml"), (row) => {
+    const id = parseInt(row.Id, 10);
+    if (row.PostTypeId === "1") {
+      data.questions[id] = {
+        question_id: id,
+        title: row.Title || "",
+        body: row.Body || "",
+        score: parseInt(row.Score || "0", 10),
+        answer_count: parseInt(row.AnswerCount || "0", 10),
+        is_answered: Boolean(row.AcceptedAnswerId) || parseInt(row.AnswerCount || "0", 10) > 0,
+        ...(row.AcceptedAnswerId && {
+          accepted_answer_id: parseInt(row.AcceptedAnswerId, 10),
+        }),
+        creation_date: toEpoch(row.CreationDate),
+        tags: parseTags(row.Tags),
+        link: `${baseUrl}/questions/${id}`,
+      };
+    } else if (row.PostTypeId === "2" && row.ParentId) {
+      const questionId = parseInt(row.ParentId, 10);
+      (data.answers[questionId] ||= []).push({
+        answer_id: id,
+        question_id: questionId,
+        score: parseInt(row.Score || "0", 10),
+        is_accepted: false,
+        body: row.Body || "",
+        creation_date: toEpoch(row.CreationDate),
+        link: `${baseUrl}/a/${id}`,
+      });
+    }
+  });
+
+  await forEachRow(join(dumpDir, "Comments.xml"), (row) => {
+    const postId = parseInt(row.PostId, 10);
+    (data.comments[postId] ||= []).push({
+      comment_id: parseInt(row.Id, 10),
+      post_id: postId,
+      score: parseInt(row.Score || "0", 10),
+      body: row.Text || "",
+      creation_date: toEpoch(row.CreationDate),
+    });
+  });
+
+  await forEachRow(join(dumpDir, "Tags.xml"), (row) => {
+    data.tags[row.TagName] = parseInt(row.Count || "0", 10);
+  });
+
+  // Mark accepted answers and keep answers and comments in vote order
+  for (const [questionId, answers] of Object.entries(data.answers)) {
+    const accepted = data.questions[Number(questionId)]?.accepted_answer_id;
+    for (const answer of answers) {
+      answer.is_accepted = answer.answer_id === accepted;
+    }
+    answers.sort((a, b) => b.score - a.score);
+  }
+  for (const comments of Object.values(data.comments)) {
+    comments.sort((a, b) => b.score - a.score);
+  }
+
+  // Build the inverted index over question titles and bodies
+  for (const question of Object.values(data.questions)) {
+    const frequencies = new Map<string, number>();
+    const add = (tokens: string[], weight: number) => {
+      for (const token of tokens) {
+        frequencies.set(token, (frequencies.get(token) || 0) + weight);
+      }
+    };
+    add(tokenize(question.title), TITLE_WEIGHT);
+    add(tokenize(question.body), 1);
+    add(question.tags, TITLE_WEIGHT);
+
+    let length = 0;
+    for (const [token, frequency] of frequencies) {
+      (data.postings[token] ||= []).push([question.question_id, frequency]);
+      length += frequency;
+    }
+    data.docLengths[question.question_id] = length;
+  }
+
+  let serialized: string;
+  try {
+    serialized = JSON.stringify(data);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error(
+        `The offline index for ${dumpDir} is too large to save; import a smaller site's dump`
+      );
+    }
+    throw error;
+  }
+  await mkdir(dirname(indexPath), { recursive: true });
+  await writeFile(indexPath, serialized);
+  return data;
+}
+
+/**
+ * Read-only view over an imported dump, answering searches with the same
+ * SearchResult shape as the online API.
+ */
+export class OfflineIndex {
+  private averageLength: number;
+
+  constructor(private data: OfflineIndexData) {
+    const lengths = Object.values(data.docLengths);
+    this.averageLength =
+      lengths.reduce((sum, length) => sum + length, 0) / (lengths.length || 1);
+  }
+
+  static async load(indexPath: string): Promise<OfflineIndex> {
+    const size = await fileSize(indexPath);
+    if (size > MAX_INDEX_BYTES) {
+      throw new Error(
+        `Offline index ${indexPath} is ${mebibytes(size)}, more than the ${mebibytes(
+          MAX_INDEX_BYTES
+        )} that can be loaded; re-import a smaller dump`
+      );
+    }
+    const data = JSON.parse(await readFile(indexPath, "utf8")) as OfflineIndexData;
+    if (data.version !== INDEX_VERSION) {
+      throw new Error(
+        `Offline index ${indexPath} has version ${data.version}, expected ${INDEX_VERSION}; re-import the dump`
+      );
+    }
+    return new OfflineIndex(data);
+  }
+
+  get site(): string {
+    return this.data.site;
+  }
+
+  /**
+   * Ranks questions against `query` with BM25; `tags` must all be present
+   */
+  search(query: string, options: OfflineSearchOptions = {}): SearchResult[] {
+    const scores = new Map<number, number>();
+    const total = Object.keys(this.data.questions).length;
+
+    for (const token of new Set(tokenize(query))) {
+      const postings = this.data.postings[token];
+      if (!postings) {
+        continue;
+      }
+      const idf = Math.log(1 + (total - postings.length + 0.5) / (postings.length + 0.5));
+      for (const [questionId, frequency] of postings) {
+        const length = this.data.docLengths[questionId] || 0;
+        const weight =
+          (idf * frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + (B * length) / this.averageLength));
+        scores.set(questionId, (scores.get(questionId) || 0) + weight);
+      }
+    }
+
+    const ranked = [...scores.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([questionId]) => this.data.questions[questionId]);
+
+    return this.toResults(ranked, options);
+  }
+
+  /**
+   * Questions carrying all of `tags`, highest voted first
+   */
+  searchByTags(tags: string[], options: OfflineSearchOptions = {}): SearchResult[] {
+    const ranked = Object.values(this.data.questions).sort(
+      (a, b) => b.score - a.score
+    );
+    return this.toResults(ranked, { ...options, tags });
+  }
+
+  /**
+   * Full threads for the given questions, in the order requested; unknown ids are skipped
+   */
+  getResults(questionIds: number[], options: OfflineSearchOptions = {}): SearchResult[] {
+    const questions = questionIds
+      .map((questionId) => this.data.questions[questionId])
+      .filter(Boolean);
+    return this.toResults(questions, { ...options, limit: questions.length });
+  }
+
+  getQuestion(questionId: number): StackOverflowQuestion | undefined {
+    return this.data.questions[questionId];
+  }
+
+  getAnswers(questionId: number): StackOverflowAnswer[] {
+    return this.data.answers[questionId] || [];
+  }
+
+  getComments(postId: number): StackOverflowComment[] {
+    return this.data.comments[postId] || [];
+  }
+
+  private toResults(
+    questions: StackOverflowQuestion[],
+    options: OfflineSearchOptions
+  ): SearchResult[] {
+    const tags = (options.tags || []).map((tag) => tag.toLowerCase());
+    const sort = options.filters?.sort;
+    // The dump has no last activity date; creation date stands in for it
+    const sorted =
+      sort === "creation" || sort === "activity"
+        ? [...questions].sort((a, b) => b.creation_date - a.creation_date)
+        : sort === "votes"
+          ? [...questions].sort((a, b) => b.score - a.score)
+          : questions;
+
+    return sorted
+      .filter((question) => tags.every((tag) => question.tags.includes(tag)))
+      .filter((question) => !(options.minScore && question.score < options.minScore))
+      .filter((question) => !options.filters || matchesFilters(question, options.filters))
+      .slice(options.offset || 0, (options.offset || 0) + (options.limit || 30))
+      .map((question) => {
+        const answers = this.getAnswers(question.question_id);
+        return {
+          question,
+          answers,
+          ...(options.includeComments && {
+            comments: {
+              question: this.getComments(question.question_id),
+              answers: Object.fromEntries(
+                answers.map((answer) => [answer.answer_id, this.getComments(answer.answer_id)])
+              ),
+            },
+          }),
+          site: this.data.site,
+        };
+      });
+  }
+}
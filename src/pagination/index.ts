@@ -0,0 +1,65 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { PageCursor, QueryTierName } from "../types/index.js";
+
+export const DEFAULT_PAGE_SIZE = 30; // the API default when pagesize is omitted
+export const MAX_PAGE_SIZE = 100; // the API maximum; larger limits are clamped to it
+
+/**
+ * Opaque cursor handed back as `nextCursor`
+ */
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(value: string): PageCursor {
+  let cursor: PageCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+  }
+  if (
+    !cursor ||
+    !Number.isInteger(cursor.page) ||
+    cursor.page < 1 ||
+    !Number.isInteger(cursor.pageSize) ||
+    cursor.pageSize < 1
+  ) {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+  }
+  return cursor;
+}
+
+/**
+ * Validates `limit` and clamps it to MAX_PAGE_SIZE. Undefined stays undefined, so the
+ * API default applies.
+ */
+export function resolveLimit(limit?: number): number | undefined {
+  if (limit === undefined) {
+    return undefined;
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new McpError(ErrorCode.InvalidParams, "limit must be a positive integer");
+  }
+  return Math.min(limit, MAX_PAGE_SIZE);
+}
+
+/**
+ * Resolves the page to fetch from `cursor` (which wins) or `page`. `limit` stays
+ * undefined when neither sets it, so the API default applies.
+ */
+export function resolvePage(args: { page?: number; cursor?: string; limit?: number }): {
+  page: number;
+  limit?: number;
+  tier?: QueryTierName;
+} {
+  if (args.cursor) {
+    const cursor = decodeCursor(args.cursor);
+    return { page: cursor.page, limit: resolveLimit(cursor.pageSize), tier: cursor.tier };
+  }
+  const page = args.page ?? 1;
+  if (!Number.isInteger(page) || page < 1) {
+    throw new McpError(ErrorCode.InvalidParams, "page must be a positive integer");
+  }
+  return { page, limit: resolveLimit(args.limit) };
+}
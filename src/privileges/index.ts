@@ -0,0 +1,41 @@
+import { AccountInfo, RequiredPrivilege, WriteToolName } from "../types/index.js";
+
+// Privilege each write tool needs on the target site
+export const TOOL_PRIVILEGES: Record<WriteToolName, RequiredPrivilege> = {
+  post_question: { privilege: "create posts", reputation: 1 },
+  post_solution: { privilege: "create posts", reputation: 1 },
+  thumbs_up: { privilege: "vote up", reputation: 15 },
+  undo_vote: { privilege: "vote up", reputation: 15 },
+  downvote: { privilege: "vote down", reputation: 125 },
+  flag_post: { privilege: "flag posts", reputation: 15 },
+  comment_solution: { privilege: "comment everywhere", reputation: 50, ownPostsExempt: true },
+  // Only ever applied to the user's own posts, which need no editing or moderation privilege
+  edit_post: { privilege: "create posts", reputation: 1 },
+  delete_post: { privilege: "create posts", reputation: 1 },
+  accept_answer: { privilege: "create posts", reputation: 1 },
+};
+
+export function hasPrivilege(account: AccountInfo, privilege: string): boolean {
+  return account.privileges.some(
+    (held) => held.short_description.toLowerCase() === privilege.toLowerCase()
+  );
+}
+
+/**
+ * Why the account may not use `tool`, or undefined when it may
+ */
+export function missingPrivilege(
+  tool: WriteToolName,
+  account: AccountInfo,
+  options: { ownPost?: boolean } = {}
+): string | undefined {
+  const required = TOOL_PRIVILEGES[tool];
+  if ((required.ownPostsExempt && options.ownPost) || hasPrivilege(account, required.privilege)) {
+    return undefined;
+  }
+  return `${tool} needs the "${required.privilege}" privilege on ${account.site} (${
+    required.reputation
+  } reputation${required.ownPostsExempt ? ", not needed on your own posts" : ""}); ${
+    account.user.display_name
+  } has ${account.user.reputation} reputation there`;
+}
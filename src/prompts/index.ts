@@ -0,0 +1,169 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { PromptDefinition } from "../types/index.js";
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: "debug_error",
+    description: "Debug an error message by searching Stack Overflow for known fixes",
+    arguments: [
+      { name: "errorMessage", description: "The error message as printed", required: true },
+      { name: "language", description: "Programming language" },
+      { name: "technologies", description: "Related technologies, comma separated" },
+    ],
+  },
+  {
+    name: "analyze_stack_trace",
+    description: "Find the root cause of a stack trace and matching solutions",
+    arguments: [
+      { name: "stackTrace", description: "The full stack trace", required: true },
+      { name: "language", description: "Programming language", required: true },
+    ],
+  },
+  {
+    name: "draft_question",
+    description:
+      "Draft a Stack Overflow question after at least three failed attempts, checking for duplicates first",
+    arguments: [
+      { name: "errorMessage", description: "The exact error line", required: true },
+      { name: "language", description: "Programming language", required: true },
+      {
+        name: "triedApproaches",
+        description: "Approaches already tried, one per line (at least 3)",
+        required: true,
+      },
+      { name: "context", description: "What you were doing, environment and versions" },
+    ],
+  },
+  {
+    name: "verify_and_post_solution",
+    description: "Verify a fix and post it as an answer only if the STRICT policies allow it",
+    arguments: [
+      { name: "questionId", description: "Question the fix answers", required: true },
+      { name: "solution", description: "What fixed the issue", required: true },
+      {
+        name: "evidence",
+        description: "Passing tests, logs or repro results, one per line",
+        required: true,
+      },
+    ],
+  },
+];
+
+function lines(value = ""): string[] {
+  return value
+    .split("\n")
+    .map((line) => line.replace(/^\s*(?:[-*]|\d+[.)])\s*/, "").trim())
+    .filter(Boolean);
+}
+
+function requireArgs(name: string, args: Record<string, string>, required: string[]) {
+  const missing = required.filter((arg) => !args[arg]?.trim());
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Prompt ${name} requires: ${missing.join(", ")}`
+    );
+  }
+}
+
+function debugError(args: Record<string, string>): string {
+  const technologies = args.technologies ? ` (${args.technologies})` : "";
+  return `I hit this error${args.language ? ` in ${args.language}` : ""}${technologies}:
+
+\`\`\`
+${args.errorMessage}
+\`\`\`
+
+Help me fix it using Stack Overflow:
+
+1. Call \`search_by_error\` with the error message${
+    args.language ? `, \`language: "${args.language}"\`` : ""
+  }${args.technologies ? " and the technologies as `technologies`" : ""}. Use \`responseFormat: "markdown"\`.
+2. If there are no useful results, retry with the error message stripped of paths, line numbers and identifiers, and without technologies.
+3. If I can give you a stack trace, use \`analyze_stack_trace\` instead of guessing.
+4. Prefer accepted and highly voted answers that match my versions. Explain the likely cause and give me concrete steps to try, most likely first.
+5. Do not post, vote or comment on anything. Once a fix is confirmed, use the \`verify_and_post_solution\` prompt if it adds something new.`;
+}
+
+function analyzeStackTrace(args: Record<string, string>): string {
+  return `Analyze this ${args.language} stack trace:
+
+\`\`\`
+${args.stackTrace}
+\`\`\`
+
+1. Call \`analyze_stack_trace\` with the trace and \`language: "${args.language}"\`.
+2. Identify the exception type, its message and the root cause (the innermost "Caused by" or exception cause), and the first frame in my own code rather than in the framework.
+3. If the results do not match the root cause, call \`search_by_error\` with just the root-cause exception and message.
+4. Summarize the root cause, point at the frame in my code to look at, and list the fixes the best answers suggest.
+5. Do not post, vote or comment on anything.`;
+}
+
+function draftQuestion(args: Record<string, string>): string {
+  const approaches = lines(args.triedApproaches);
+  if (approaches.length < 3) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Prompt draft_question requires at least 3 triedApproaches, one per line"
+    );
+  }
+
+  return `I want to ask a new Stack Overflow question about this ${args.language} error:
+
+\`\`\`
+${args.errorMessage}
+\`\`\`
+${args.context ? `\nContext: ${args.context}\n` : ""}
+What I already tried:
+${approaches.map((approach, index) => `${index + 1}. ${approach}`).join("\n")}
+
+Follow the STRICT policy of \`post_question\`:
+
+1. Call \`search_by_error\` with the error and \`language: "${args.language}"\`, then again without the language. If anything remotely similar exists, stop and show me those questions instead of posting.
+2. Otherwise draft the question: a specific title naming the error, a body with context, versions, a minimal reproducible example, the full error, and a section listing each tried approach with its result. Pick up to 5 relevant tags.
+3. Call \`post_question\` with the title, body, tags, \`errorSignature\` set to the exact error line, and \`triedApproaches\` set to the list above. It returns a preview and a \`confirmationToken\` without posting.
+4. Show me the preview and wait for my approval. Only then call \`confirm_action\` with the token.`;
+}
+
+function verifyAndPostSolution(args: Record<string, string>): string {
+  const evidence = lines(args.evidence);
+  return `I fixed the problem in question ${args.questionId} with:
+
+${args.solution}
+
+Evidence:
+${evidence.map((item) => `- ${item}`).join("\n") || "- (none given)"}
+
+Follow the STRICT policies before anything is published:
+
+1. Confirm with me that the fix really resolved the issue. If the evidence does not show that (for example tests still fail), stop.
+2. Read the question (resource \`stackoverflow://questions/${args.questionId}\`). If an existing answer already describes this fix, do not post: call \`thumbs_up\` on that answer with \`confirmedFixed: true\` instead.
+3. If the question already has answers or an accepted answer, \`post_solution\` will refuse; stop there and use \`comment_solution\` only if there is no accepted answer and the comment adds real context.
+4. Otherwise write a Markdown answer with the steps, the rationale and code blocks, and call \`post_solution\` with \`confirmedResolved: true\` and the evidence list. Show me the preview it returns and call \`confirm_action\` with its \`confirmationToken\` only after my approval.`;
+}
+
+/**
+ * Renders a prompt template into the user message the model should follow
+ */
+export function renderPrompt(name: string, args: Record<string, string> = {}): string {
+  const prompt = PROMPTS.find((item) => item.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  requireArgs(
+    name,
+    args,
+    prompt.arguments.filter((arg) => arg.required).map((arg) => arg.name)
+  );
+
+  switch (name) {
+    case "debug_error":
+      return debugError(args);
+    case "analyze_stack_trace":
+      return analyzeStackTrace(args);
+    case "draft_question":
+      return draftQuestion(args);
+    default:
+      return verifyAndPostSolution(args);
+  }
+}
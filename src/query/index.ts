@@ -0,0 +1,276 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { QueryTier, SearchFilters, SearchSort, StackOverflowQuestion } from "../types/index.js";
+import { decodeHtmlEntities } from "../markdown/index.js";
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_KEY_TERMS = 8;
+
+// Words that carry no signal in an error message
+const FILLER_WORDS = new Set([
+  "the", "and", "for", "with", "from", "into", "this", "that", "was", "were",
+  "are", "has", "have", "had", "its", "but", "while", "when", "then", "than",
+  "there", "their", "your", "you", "our", "which", "been", "being", "also",
+]);
+
+// Ordered so that larger tokens (URLs, paths) are removed before their parts
+const VOLATILE_PATTERNS: Array<[RegExp, string]> = [
+  [/\[REDACTED:[\w-]+\]/g, " "], // redaction markers
+  [/\bhttps?:\/\/\S+/gi, " "], // URLs
+  [/\b[\w.+-]+@[\w-]+\.[\w.-]+\b/g, " "], // emails
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, " "], // UUIDs
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/g, " "], // ISO timestamps
+  [/\b\d{4}[-/]\d{2}[-/]\d{2}\b|\b\d{1,2}:\d{2}:\d{2}(?:[.,]\d+)?\b/g, " "], // dates and times
+  [/\b[A-Za-z]:\\[^\s'"`,;)]*/g, " "], // Windows paths
+  [/(?:~|\.{1,2})?(?:\/[^\s/'"`,;:)]+){2,}\/?/g, " "], // POSIX paths
+  [/\b(?:\d{1,3}\.){3}\d{1,3}(?::\d+)?\b|\[[0-9a-f:]+\](?::\d+)?/gi, " "], // IP addresses
+  [/\blocalhost:\d+\b/gi, "localhost"],
+  [/\b(port)\s+\d+\b/gi, "$1"],
+  [/\b0x[0-9a-f]+\b/gi, " "], // memory addresses
+  [/\b[0-9a-f]{12,}\b/gi, " "], // hashes and object ids
+  [/\b(line|ln|column|col)\s*:?\s*\d+\b/gi, " "], // "line 42"
+  [/(?:[\w-]+\.\w+)?:\d+(?::\d+)?\b/g, " "], // "file.js:12:5" leftovers
+  [/\b\d{3,}\b/g, " "], // pids, ports, sizes and other long numbers
+];
+
+/**
+ * Strips tokens that are specific to one machine or run (paths, line numbers,
+ * addresses, UUIDs, timestamps, ports, long numbers) so the rest of the message
+ * matches other people's reports of the same error.
+ */
+export function normalizeErrorMessage(message: string): string {
+  // Stack frames after the message only add noise
+  let text = message.split("\n").find((line) => line.trim()) || "";
+
+  for (const [pattern, replacement] of VOLATILE_PATTERNS) {
+    text = text.replace(pattern, replacement);
+  }
+
+  // Quoted values that still contain digits or separators are user-specific identifiers
+  text = text.replace(/(['"`])([^'"`]*[\d/\\][^'"`]*)\1/g, " ");
+
+  text = text
+    .replace(/(['"`])\s*\1|\(\s*\)|\[\s*\]|\{\s*\}/g, " ")
+    .replace(/\s+([,.;:)])/g, "$1")
+    .replace(/\s+/g, " ");
+
+  // Drop prepositions and punctuation left dangling where a token was removed
+  let previous;
+  do {
+    previous = text;
+    text = text
+      .replace(/^[\s,.;:-]+|[\s,;:(-]+$/g, "")
+      .replace(/\s+(?:at|in|on|from|to|of|for|with|near)$/i, "");
+  } while (text !== previous);
+
+  return text.slice(0, MAX_QUERY_LENGTH);
+}
+
+/**
+ * Distinctive words of a normalized message: exception names and error codes
+ * first, then the remaining words in order.
+ */
+export function extractKeyTerms(message: string): string[] {
+  const words = normalizeErrorMessage(message)
+    .split(/[^\w.#-]+/)
+    .map((word) => word.replace(/^[.#-]+|[.#-]+$/g, ""))
+    .filter((word) => word.length > 2 && !FILLER_WORDS.has(word.toLowerCase()));
+
+  const distinctive = (word: string) =>
+    /(?:Error|Exception)$/.test(word) || /^[A-Z]+\d*$|^[A-Z]{1,4}\d{3,}$/.test(word);
+
+  return [
+    ...new Set([...words.filter(distinctive), ...words.filter((word) => !distinctive(word))]),
+  ].slice(0, MAX_KEY_TERMS);
+}
+
+// Lowercased words of an HTML fragment, split like extractKeyTerms so its terms match
+function words(html = ""): Set<string> {
+  return new Set(
+    decodeHtmlEntities(html.replace(/<[^>]+>/g, " "))
+      .toLowerCase()
+      .split(/[^\w.#-]+/)
+      .map((word) => word.replace(/^[.#-]+|[.#-]+$/g, ""))
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Share of lowercased `terms` found in a question: a term in the title counts fully,
+ * one only in the body half
+ */
+export function termCoverage(
+  terms: string[],
+  question: Pick<StackOverflowQuestion, "title" | "body">
+): number {
+  if (terms.length === 0) {
+    return 0;
+  }
+  const title = words(question.title);
+  const body = words(question.body);
+  const matched = terms.reduce(
+    (sum, term) => sum + (title.has(term) ? 1 : body.has(term) ? 0.5 : 0),
+    0
+  );
+  return matched / terms.length;
+}
+
+/**
+ * Queries to try in order, from the most to the least specific: the exact phrase,
+ * the normalized message, its key terms with the tags, and the key terms alone.
+ * Tiers that would repeat an earlier query are skipped.
+ */
+export function buildQueryTiers(message: string, tags?: string[]): QueryTier[] {
+  const exact = (message.split("\n").find((line) => line.trim()) || "")
+    .trim()
+    .replace(/"/g, "")
+    .slice(0, MAX_QUERY_LENGTH);
+  const terms = extractKeyTerms(message).join(" ");
+  const tagged = tags && tags.length > 0 ? tags : undefined;
+
+  const tiers: QueryTier[] = [
+    { name: "exact", query: `"${exact}"`, ...(tagged && { tags: tagged }) },
+    { name: "normalized", query: normalizeErrorMessage(message), ...(tagged && { tags: tagged }) },
+    { name: "keywords", query: terms, ...(tagged && { tags: tagged }) },
+    { name: "keywords_untagged", query: terms },
+  ];
+
+  const seen = new Set<string>();
+  return tiers.filter((tier) => {
+    const key = `${tier.query}|${(tier.tags || []).join(";")}`;
+    if (!tier.query.replace(/"/g, "").trim() || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+export const SEARCH_SORTS: SearchSort[] = ["relevance", "activity", "creation", "votes"];
+
+const FILTER_KEYS: Array<keyof SearchFilters> = [
+  "sort", "fromDate", "toDate", "accepted", "answers", "closed", "migrated", "notice",
+  "views", "title", "body", "url", "user", "nottagged", "wiki",
+];
+const BOOLEAN_FILTERS = ["accepted", "closed", "migrated", "notice", "wiki"] as const;
+export const TEXT_FILTERS = ["title", "body", "url"] as const; // sent to the API as typed
+
+function invalid(message: string): never {
+  throw new McpError(ErrorCode.InvalidParams, message);
+}
+
+/**
+ * Unix seconds from an ISO date, an ISO timestamp or unix seconds
+ */
+function parseDate(value: string | number, name: string): number {
+  if (typeof value === "number" || /^\d+$/.test(value)) {
+    return Number(value);
+  }
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    invalid(`${name} must be an ISO date (YYYY-MM-DD), timestamp or unix seconds`);
+  }
+  return Math.floor(time / 1000);
+}
+
+/**
+ * The search filters set on a tool input, or undefined when there are none
+ */
+export function pickSearchFilters(input: SearchFilters): SearchFilters | undefined {
+  const filters = Object.fromEntries(
+    FILTER_KEYS.filter((key) => input[key] !== undefined).map((key) => [key, input[key]])
+  ) as SearchFilters;
+  return Object.keys(filters).length > 0 ? filters : undefined;
+}
+
+/**
+ * Filters only /search/advanced understands; /questions takes sort and dates only
+ */
+export function needsAdvancedSearch(filters: SearchFilters): boolean {
+  return (
+    filters.sort === "relevance" ||
+    FILTER_KEYS.some(
+      (key) => !["sort", "fromDate", "toDate"].includes(key) && filters[key] !== undefined
+    )
+  );
+}
+
+/**
+ * Validates the filters and converts them to /search/advanced parameters
+ */
+export function searchFilterParams(filters: SearchFilters): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  if (filters.sort !== undefined) {
+    if (!SEARCH_SORTS.includes(filters.sort)) {
+      invalid(`sort must be one of: ${SEARCH_SORTS.join(", ")}`);
+    }
+    params.sort = filters.sort;
+  }
+
+  const from = filters.fromDate !== undefined ? parseDate(filters.fromDate, "fromDate") : undefined;
+  const to = filters.toDate !== undefined ? parseDate(filters.toDate, "toDate") : undefined;
+  if (from !== undefined && to !== undefined && from > to) {
+    invalid("fromDate must not be after toDate");
+  }
+  if (from !== undefined) params.fromdate = from.toString();
+  if (to !== undefined) params.todate = to.toString();
+
+  for (const key of BOOLEAN_FILTERS) {
+    const value = filters[key];
+    if (value === undefined) continue;
+    if (typeof value !== "boolean") invalid(`${key} must be true or false`);
+    params[key] = String(value);
+  }
+
+  for (const key of ["answers", "views"] as const) {
+    const value = filters[key];
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || value < 0) invalid(`${key} must be a non-negative integer`);
+    params[key] = String(value);
+  }
+
+  if (filters.user !== undefined) {
+    if (!Number.isInteger(filters.user) || filters.user < 1) {
+      invalid("user must be a positive user id");
+    }
+    params.user = String(filters.user);
+  }
+
+  for (const key of TEXT_FILTERS) {
+    const value = filters[key];
+    if (value === undefined) continue;
+    if (typeof value !== "string" || !value.trim()) invalid(`${key} must be a non-empty string`);
+    params[key] = value.trim();
+  }
+
+  if (filters.nottagged !== undefined) {
+    if (
+      !Array.isArray(filters.nottagged) ||
+      filters.nottagged.some((tag) => typeof tag !== "string" || !tag.trim() || tag.includes(";"))
+    ) {
+      invalid("nottagged must be a list of tags");
+    }
+    params.nottagged = filters.nottagged.map((tag) => tag.trim()).join(";");
+  }
+
+  return params;
+}
+
+/**
+ * Applies the filters the offline index has data for: dates, accepted, answers,
+ * nottagged, title and body. The others cannot be checked offline and are ignored.
+ */
+export function matchesFilters(question: StackOverflowQuestion, filters: SearchFilters): boolean {
+  const params = searchFilterParams(filters);
+  const contains = (text: string, part: string) => text.toLowerCase().includes(part.toLowerCase());
+
+  return (
+    !(params.fromdate && question.creation_date < Number(params.fromdate)) &&
+    !(params.todate && question.creation_date > Number(params.todate)) &&
+    !(filters.accepted !== undefined && Boolean(question.accepted_answer_id) !== filters.accepted) &&
+    !(filters.answers !== undefined && question.answer_count < filters.answers) &&
+    !(filters.nottagged && filters.nottagged.some((tag) => question.tags.includes(tag.toLowerCase()))) &&
+    !(filters.title && !contains(question.title, filters.title)) &&
+    !(filters.body && !contains(question.body, filters.body))
+  );
+}
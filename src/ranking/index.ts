@@ -0,0 +1,126 @@
+import {
+  RankedResult,
+  RankingContext,
+  RankingSignal,
+  RankingWeights,
+  SearchResult,
+} from "../types/index.js";
+import { extractKeyTerms, termCoverage } from "../query/index.js";
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  similarity: 3,
+  accepted: 2,
+  answerScore: 1.5,
+  recency: 1,
+  tagOverlap: 1,
+  duplicate: -3,
+};
+
+const SIGNALS = Object.keys(DEFAULT_RANKING_WEIGHTS) as RankingSignal[];
+
+const ANSWER_SCORE_CAP = 1000; // answers at or above this score get the full signal
+const RECENCY_HALF_LIFE_DAYS = 3 * 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads STACKOVERFLOW_RANK_WEIGHTS, e.g. "similarity=4,recency=2,duplicate=-5".
+ * Signals that are not listed keep their default weight.
+ */
+export function rankingWeightsFromEnv(env: NodeJS.ProcessEnv): RankingWeights {
+  const weights = { ...DEFAULT_RANKING_WEIGHTS };
+  for (const entry of (env.STACKOVERFLOW_RANK_WEIGHTS || "").split(",")) {
+    if (!entry.trim()) continue;
+    const [name, value] = entry.split("=").map((part) => part.trim());
+    const weight = Number(value);
+    if (!SIGNALS.includes(name as RankingSignal) || value === undefined || isNaN(weight)) {
+      throw new Error(
+        `Invalid STACKOVERFLOW_RANK_WEIGHTS entry ${entry.trim()}: expected <signal>=<number> with signal one of ${SIGNALS.join(", ")}`
+      );
+    }
+    weights[name as RankingSignal] = weight;
+  }
+  return weights;
+}
+
+function signalsOf(
+  result: SearchResult,
+  terms: string[],
+  tags: string[],
+  now: number
+): Record<RankingSignal, number> {
+  const { question, answers } = result;
+  const topAnswer = Math.max(0, ...answers.map((answer) => answer.score));
+  const newest = Math.max(
+    question.creation_date || 0,
+    ...answers.map((answer) => answer.creation_date || 0)
+  );
+  const questionTags = new Set((question.tags || []).map((tag) => tag.toLowerCase()));
+
+  return {
+    similarity: termCoverage(terms, result.question),
+    accepted: question.accepted_answer_id || answers.some((answer) => answer.is_accepted) ? 1 : 0,
+    answerScore: Math.min(1, Math.log10(1 + topAnswer) / Math.log10(1 + ANSWER_SCORE_CAP)),
+    recency:
+      newest > 0
+        ? Math.pow(0.5, Math.max(0, now - newest * 1000) / DAY_MS / RECENCY_HALF_LIFE_DAYS)
+        : 0,
+    tagOverlap:
+      tags.length > 0 ? tags.filter((tag) => questionTags.has(tag)).length / tags.length : 0,
+    duplicate:
+      /^duplicate$/i.test(question.closed_reason || "") || /\[duplicate\]\s*$/i.test(question.title || "")
+        ? 1
+        : 0,
+  };
+}
+
+/**
+ * Orders results by the weighted sum of their signals. Ties keep the incoming (vote) order.
+ */
+export function rankResults(
+  results: SearchResult[],
+  context: RankingContext,
+  weights: RankingWeights = DEFAULT_RANKING_WEIGHTS,
+  now = Date.now()
+): RankedResult[] {
+  const terms = context.query ? extractKeyTerms(context.query).map((term) => term.toLowerCase()) : [];
+  const tags = [...new Set((context.tags || []).map((tag) => tag.toLowerCase()))];
+
+  return results
+    .map((result) => {
+      const signals = signalsOf(result, terms, tags, now);
+      const score = SIGNALS.reduce((sum, signal) => sum + weights[signal] * signals[signal], 0);
+      return { result, score, signals };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * JSON explanation: each result's rank, score and weighted signal contributions
+ */
+export function explainRanking(ranked: RankedResult[], weights: RankingWeights) {
+  return ranked.map(({ result, score, signals }, index) => ({
+    rank: index + 1,
+    questionId: result.question.question_id,
+    score: round(score),
+    signals: Object.fromEntries(
+      SIGNALS.map((signal) => [
+        signal,
+        { value: round(signals[signal]), weight: weights[signal], contribution: round(weights[signal] * signals[signal]) },
+      ])
+    ),
+  }));
+}
+
+export function formatRankingExplanation(ranked: RankedResult[], weights: RankingWeights): string {
+  const lines = ranked.map(({ result, score, signals }, index) => {
+    const parts = SIGNALS.filter((signal) => weights[signal] * signals[signal] !== 0).map(
+      (signal) => `${signal} ${round(signals[signal])}×${weights[signal]}`
+    );
+    return `${index + 1}. ${result.question.question_id}: ${round(score)}${
+      parts.length > 0 ? ` (${parts.join(", ")})` : ""
+    }`;
+  });
+  return `### Ranking\n\n${lines.join("\n")}`;
+}
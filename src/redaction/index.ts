@@ -0,0 +1,226 @@
+import { RedactionFinding, RedactionResult } from "../types/index.js";
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  confidence: "high" | "low";
+  // Index of the capture group holding the sensitive part; the whole match when omitted
+  group?: number;
+}
+
+const CREDENTIAL_NAME =
+  "(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)";
+
+// Secrets: posting is refused when one of these is found
+const SECRET_DETECTORS: Detector[] = [
+  {
+    name: "private_key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+    confidence: "high",
+  },
+  { name: "jwt", pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g, confidence: "high" },
+  { name: "aws_access_key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, confidence: "high" },
+  {
+    name: "github_token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,})\b/g,
+    confidence: "high",
+  },
+  { name: "slack_token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g, confidence: "high" },
+  { name: "google_api_key", pattern: /\bAIza[\w-]{35}\b/g, confidence: "high" },
+  {
+    name: "api_key",
+    pattern: /\b(?:[sprk]k_(?:live|test)_[A-Za-z0-9]{16,}|sk-[\w-]{20,})\b/g,
+    confidence: "high",
+  },
+  {
+    name: "bearer_token",
+    pattern: /\bBearer\s+([\w.~+/-]{16,}=*)/g,
+    confidence: "high",
+    group: 1,
+  },
+  {
+    name: "connection_string",
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:([^\s@/]+)@/gi,
+    confidence: "high",
+    group: 1,
+  },
+  // Quoted literals only: `password: string` or `token = getToken()` are ordinary code
+  {
+    name: "password",
+    pattern: new RegExp(`\\b${CREDENTIAL_NAME}\\b["']?\\s*[=:]\\s*(["'])([^\\s"']{4,})\\1`, "gi"),
+    confidence: "high",
+    group: 2,
+  },
+  // Unquoted values (config files, env listings) when they mix letters and digits like a
+  // generated secret and are not followed by a call or member access
+  {
+    name: "password",
+    pattern: new RegExp(
+      `\\b${CREDENTIAL_NAME}\\b["']?\\s*[=:]\\s*(?=[\\w+/-]*\\d)(?=[\\w+/-]*[a-z])([\\w+/-]{12,}=*)(?![\\w.(\\[+/=-])`,
+      "gi"
+    ),
+    confidence: "high",
+    group: 1,
+  },
+];
+
+// Personal or infrastructure details: redacted, but posting is allowed
+const PII_DETECTORS: Detector[] = [
+  { name: "email", pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}\b/gi, confidence: "low" },
+  {
+    name: "username",
+    pattern: /(?:\/(?:home|Users)\/|\b[A-Za-z]:\\Users\\)([^\s/\\'"`]+)/g,
+    confidence: "low",
+    group: 1,
+  },
+  {
+    name: "internal_hostname",
+    // Not followed by another dotted segment, so package paths such as
+    // jdk.internal.reflect in stack frames are left alone
+    pattern: /\b(?:[a-z0-9-]+\.)+(?:internal|local|corp|lan|intranet|localdomain)\b(?!\.[\w$])/gi,
+    confidence: "low",
+  },
+  {
+    name: "private_ip",
+    pattern: /\b(?:10(?:\.\d{1,3}){3}|192\.168(?:\.\d{1,3}){2}|172\.(?:1[6-9]|2\d|3[01])(?:\.\d{1,3}){2})\b/g,
+    confidence: "low",
+  },
+];
+
+export interface RedactorOptions {
+  customPatterns?: RegExp[]; // always redacted, reported as "custom"
+  allowlist?: string[]; // values that are never redacted, compared case-insensitively
+  internalDomains?: string[]; // extra domain suffixes treated as internal hostnames
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function list(value?: string, separator: string | RegExp = ","): string[] {
+  return (value || "")
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Reads redaction settings from the environment:
+ * STACKOVERFLOW_REDACT_PATTERNS (one regex per line), STACKOVERFLOW_REDACT_ALLOWLIST
+ * and STACKOVERFLOW_INTERNAL_DOMAINS (comma separated).
+ */
+export function redactionFromEnv(env: NodeJS.ProcessEnv): RedactorOptions {
+  return {
+    customPatterns: list(env.STACKOVERFLOW_REDACT_PATTERNS, /\r?\n/).map((source) => {
+      try {
+        return new RegExp(source, "g");
+      } catch (error) {
+        throw new Error(
+          `Invalid STACKOVERFLOW_REDACT_PATTERNS entry ${source}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }),
+    allowlist: list(env.STACKOVERFLOW_REDACT_ALLOWLIST),
+    internalDomains: list(env.STACKOVERFLOW_INTERNAL_DOMAINS),
+  };
+}
+
+/**
+ * Replaces secrets and personal data with `[REDACTED:<detector>]` markers
+ * and reports what was found.
+ */
+export class Redactor {
+  private detectors: Detector[];
+  private allowlist: Set<string>;
+
+  constructor(options: RedactorOptions = {}) {
+    this.allowlist = new Set((options.allowlist || []).map((value) => value.toLowerCase()));
+    this.detectors = [
+      ...SECRET_DETECTORS,
+      ...PII_DETECTORS,
+      ...(options.internalDomains && options.internalDomains.length > 0
+        ? [
+            {
+              name: "internal_hostname",
+              pattern: new RegExp(
+                `\\b(?:[a-z0-9-]+\\.)*(?:${options.internalDomains
+                  .map((domain) => escapeRegExp(domain.replace(/^\./, "")))
+                  .join("|")})\\b(?!\\.[\\w$])`,
+                "gi"
+              ),
+              confidence: "low" as const,
+            },
+          ]
+        : []),
+      ...(options.customPatterns || []).map((pattern) => ({
+        name: "custom",
+        pattern: pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+        confidence: "low" as const,
+      })),
+    ];
+  }
+
+  redact(text: string): RedactionResult {
+    const counts = new Map<string, RedactionFinding>();
+    let redacted = text;
+
+    for (const detector of this.detectors) {
+      redacted = redacted.replace(detector.pattern, (match: string, ...groups: unknown[]) => {
+        const secret = detector.group ? (groups[detector.group - 1] as string | undefined) : match;
+        if (!secret || secret.startsWith("[REDACTED:") || this.allowlist.has(secret.toLowerCase())) {
+          return match;
+        }
+
+        const finding = counts.get(detector.name) || {
+          detector: detector.name,
+          confidence: detector.confidence,
+          count: 0,
+        };
+        finding.count++;
+        counts.set(detector.name, finding);
+
+        const marker = `[REDACTED:${detector.name}]`;
+        return detector.group ? match.replace(secret, marker) : marker;
+      });
+    }
+
+    return { text: redacted, findings: [...counts.values()] };
+  }
+
+  /**
+   * Redacts several fields at once and merges their findings
+   */
+  redactAll<T extends Record<string, string>>(fields: T): { fields: T; findings: RedactionFinding[] } {
+    const redacted = {} as Record<string, string>;
+    const findings: RedactionFinding[][] = [];
+
+    for (const [name, value] of Object.entries(fields)) {
+      const result = this.redact(value);
+      redacted[name] = result.text;
+      findings.push(result.findings);
+    }
+
+    return { fields: redacted as T, findings: mergeFindings(...findings) };
+  }
+}
+
+/**
+ * Adds up the counts of findings from several redactions, one entry per detector
+ */
+export function mergeFindings(...lists: RedactionFinding[][]): RedactionFinding[] {
+  const findings = new Map<string, RedactionFinding>();
+  for (const finding of lists.flat()) {
+    const total = findings.get(finding.detector);
+    findings.set(finding.detector, total ? { ...total, count: total.count + finding.count } : finding);
+  }
+  return [...findings.values()];
+}
+
+/**
+ * Human-readable summary such as "jwt (1), email (2)"
+ */
+export function describeFindings(findings: RedactionFinding[]): string {
+  return findings.map((finding) => `${finding.detector} (${finding.count})`).join(", ");
+}
@@ -0,0 +1,121 @@
+import { PostRef, ResourceRef } from "../types/index.js";
+
+export const RESOURCE_SCHEME = "stackoverflow://";
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "stackoverflow://questions/{id}{?site}",
+    name: "Stack Exchange question",
+    description: "A question with its answers (accepted first, then by votes) and comments",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "stackoverflow://answers/{id}{?site}",
+    name: "Stack Exchange answer",
+    description: "A single answer with its question title and comments",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "stackoverflow://tags/{tag}/faq{?site}",
+    name: "Tag FAQ",
+    description: "Frequently asked questions for a tag",
+    mimeType: "text/markdown",
+  },
+];
+
+/**
+ * Parses a stackoverflow:// resource URI. Returns undefined for unknown shapes.
+ */
+export function parseResourceUri(uri: string): ResourceRef | undefined {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    return undefined;
+  }
+
+  const [path, query = ""] = uri.slice(RESOURCE_SCHEME.length).split("?");
+  const site = new URLSearchParams(query).get("site") || undefined;
+  const parts = path.split("/").filter(Boolean);
+
+  if (parts.length === 2 && (parts[0] === "questions" || parts[0] === "answers")) {
+    const id = Number(parts[1]);
+    if (!Number.isInteger(id) || id <= 0) {
+      return undefined;
+    }
+    return parts[0] === "questions"
+      ? { kind: "question", id, site }
+      : { kind: "answer", id, site };
+  }
+
+  if (parts.length === 3 && parts[0] === "tags" && parts[2] === "faq") {
+    return { kind: "tagFaq", tag: decodeURIComponent(parts[1]), site };
+  }
+
+  return undefined;
+}
+
+/**
+ * Builds the canonical URI for a resource; the default site is left implicit
+ */
+export function resourceUri(ref: ResourceRef, defaultSite: string): string {
+  const path =
+    ref.kind === "question"
+      ? `questions/${ref.id}`
+      : ref.kind === "answer"
+        ? `answers/${ref.id}`
+        : `tags/${encodeURIComponent(ref.tag)}/faq`;
+  const site = ref.site && ref.site !== defaultSite ? `?site=${ref.site}` : "";
+  return `${RESOURCE_SCHEME}${path}${site}`;
+}
+
+/**
+ * Maps a Stack Exchange host to its api site parameter,
+ * e.g. serverfault.com -> serverfault, unix.stackexchange.com -> unix
+ */
+function siteFromHost(host: string): string | undefined {
+  const name = host.toLowerCase().replace(/^www\./, "");
+  if (name.endsWith(".stackexchange.com")) {
+    return name.slice(0, -".stackexchange.com".length);
+  }
+  if (name.endsWith(".com") && name !== "stackexchange.com") {
+    return name.slice(0, -".com".length);
+  }
+  return undefined;
+}
+
+/**
+ * Parses what a user may paste to point at a post: a numeric question id, a question
+ * or answer URL, a /q/ or /a/ short link, or a stackoverflow:// resource URI.
+ */
+export function parsePostReference(value: number | string): PostRef | undefined {
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    return Number(text) > 0 ? { kind: "question", id: Number(text) } : undefined;
+  }
+
+  if (text.startsWith(RESOURCE_SCHEME)) {
+    const ref = parseResourceUri(text);
+    return ref && ref.kind !== "tagFaq" ? ref : undefined;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+  } catch {
+    return undefined;
+  }
+  const site = siteFromHost(url.hostname);
+  if (!site) {
+    return undefined;
+  }
+
+  // /questions/{id}/{slug}/{answerId} links to an answer within the thread
+  const [kind, id, , answerId] = url.pathname.split("/").filter(Boolean);
+  if (kind === "questions" && /^\d+$/.test(id || "")) {
+    return /^\d+$/.test(answerId || "")
+      ? { kind: "answer", id: Number(answerId), site }
+      : { kind: "question", id: Number(id), site };
+  }
+  if ((kind === "q" || kind === "a") && /^\d+$/.test(id || "")) {
+    return { kind: kind === "q" ? "question" : "answer", id: Number(id), site };
+  }
+  return undefined;
+}
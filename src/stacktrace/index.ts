@@ -0,0 +1,428 @@
+import { ParsedStackTrace, StackFrame, TraceLanguage } from "../types/index.js";
+
+const MAX_FRAMES = 10;
+const MAX_QUERY_LENGTH = 200;
+
+const LANGUAGE_ALIASES: Record<string, TraceLanguage> = {
+  python: "python",
+  py: "python",
+  python3: "python",
+  django: "python",
+  java: "java",
+  kotlin: "java",
+  scala: "java",
+  groovy: "java",
+  android: "java",
+  javascript: "javascript",
+  js: "javascript",
+  typescript: "javascript",
+  ts: "javascript",
+  node: "javascript",
+  nodejs: "javascript",
+  "node.js": "javascript",
+  go: "go",
+  golang: "go",
+  "c#": "dotnet",
+  csharp: "dotnet",
+  "f#": "dotnet",
+  "vb.net": "dotnet",
+  ".net": "dotnet",
+  dotnet: "dotnet",
+  "asp.net": "dotnet",
+  rust: "rust",
+  rs: "rust",
+};
+
+// Frames in these namespaces belong to the runtime or common frameworks
+const JAVA_FRAMEWORK_PREFIXES = [
+  "java.", "javax.", "jakarta.", "jdk.", "sun.", "com.sun.", "kotlin.", "kotlinx.",
+  "scala.", "groovy.", "org.springframework.", "org.apache.", "org.hibernate.",
+  "org.junit.", "junit.", "org.gradle.", "com.google.", "io.netty.", "reactor.",
+  "android.", "androidx.", "dalvik.", "com.android.", "okhttp3.", "retrofit2.",
+  "org.eclipse.", "com.fasterxml.", "org.slf4j.", "ch.qos.",
+];
+// Runtime namespaces say little about where an error comes from, so they are not used in queries
+const JAVA_RUNTIME_PREFIXES = ["java.", "javax.", "jdk.", "sun.", "com.sun.", "kotlin.", "scala.", "dalvik."];
+const DOTNET_FRAMEWORK_PREFIXES = [
+  "System.", "Microsoft.", "Newtonsoft.", "NUnit.", "Xunit.", "lambda_method",
+];
+const RUST_FRAMEWORK_PREFIXES = [
+  "std::", "core::", "alloc::", "backtrace::", "tokio::", "rust_begin_unwind",
+  "__rust", "__libc", "_start",
+];
+
+/**
+ * Picks a parser from the language argument, falling back to the shape of the trace
+ */
+export function detectTraceLanguage(trace: string, language = ""): TraceLanguage {
+  const alias = LANGUAGE_ALIASES[language.trim().toLowerCase()];
+  if (alias) return alias;
+
+  if (/Traceback \(most recent call last\)/.test(trace)) return "python";
+  if (/^goroutine \d+ \[/m.test(trace)) return "go";
+  if (/panicked at/.test(trace)) return "rust";
+  if (/^\s+at .+\(.+\.(?:java|kt|scala):\d+\)/m.test(trace)) return "java";
+  if (/ ---> |^\s+at .+ in .+:line \d+/m.test(trace)) return "dotnet";
+  if (/^\s+at .+:\d+:\d+\)?$/m.test(trace)) return "javascript";
+  return "generic";
+}
+
+interface ExceptionBlock {
+  exceptionType?: string;
+  message: string;
+  frames: StackFrame[];
+}
+
+// "Type: message" or a bare "Type"; anything else is treated as a message
+function splitException(line: string, typePattern = /^([A-Za-z_$][\w$.]*)(?::\s*([\s\S]*))?$/) {
+  const match = typePattern.exec(line.trim());
+  return match
+    ? { exceptionType: match[1], message: (match[2] || "").trim() }
+    : { message: line.trim() };
+}
+
+function startsWithAny(value: string, prefixes: string[]): boolean {
+  return prefixes.some((prefix) => value.startsWith(prefix));
+}
+
+function parsePython(lines: string[]): ExceptionBlock[] {
+  const blocks: ExceptionBlock[] = [];
+  let frames: StackFrame[] = [];
+
+  for (const line of lines) {
+    const frame = /^\s*File "([^"]+)", line (\d+)(?:, in (.+))?/.exec(line);
+    if (frame) {
+      const [, file, lineNumber, fn] = frame;
+      const library =
+        /(?:site|dist)-packages[\\/]([\w.-]+)/.exec(file)?.[1];
+      frames.push({
+        raw: line.trim(),
+        function: fn,
+        file,
+        line: Number(lineNumber),
+        isUserCode: !/(?:site|dist)-packages|[\\/]lib[\\/]python\d|<frozen/.test(file),
+        ...(library && { library }),
+      });
+      continue;
+    }
+    if (/^\S/.test(line) && !line.startsWith("Traceback")) {
+      const parsed = splitException(line);
+      if (parsed.exceptionType) {
+        // Python prints frames outermost first
+        blocks.push({ ...parsed, frames: frames.reverse() });
+        frames = [];
+      }
+    }
+  }
+
+  // The last exception was raised; the first one in a chain is the root cause
+  return blocks.reverse();
+}
+
+function parseJava(lines: string[]): ExceptionBlock[] {
+  const blocks: ExceptionBlock[] = [];
+  let suppressed = false;
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line || line.startsWith("...")) continue;
+
+    const frame = /^at\s+(?:[\w.$-]+\/)*([\w$.<>]+)\(([^)]*)\)/.exec(line);
+    if (frame) {
+      const current = blocks[blocks.length - 1];
+      if (current && !suppressed) {
+        const [, fn, location] = frame;
+        const fileMatch = /^(.+?):(\d+)$/.exec(location);
+        const framework = startsWithAny(fn, JAVA_FRAMEWORK_PREFIXES);
+        current.frames.push({
+          raw: line,
+          function: fn,
+          ...(fileMatch && { file: fileMatch[1], line: Number(fileMatch[2]) }),
+          isUserCode: !framework,
+          ...(framework &&
+            !startsWithAny(fn, JAVA_RUNTIME_PREFIXES) && {
+              library: fn.split(".").slice(0, 3).join("."),
+            }),
+        });
+      }
+      continue;
+    }
+
+    if (line.startsWith("Suppressed:")) {
+      suppressed = true;
+      continue;
+    }
+    if (line.startsWith("Caused by:")) {
+      suppressed = false;
+      blocks.push({ ...splitException(line.slice("Caused by:".length)), frames: [] });
+      continue;
+    }
+    if (blocks.length === 0) {
+      blocks.push({
+        ...splitException(line.replace(/^Exception in thread "[^"]*"\s+/, "")),
+        frames: [],
+      });
+    }
+  }
+
+  return blocks;
+}
+
+function parseJavaScript(lines: string[]): ExceptionBlock[] {
+  const blocks: ExceptionBlock[] = [];
+  const header = /^(?:Uncaught\s+)?(?:\[cause\]:\s*|Caused by:\s*)?([A-Z]\w*(?:Error|Exception)|Error)(?::\s*(.*))?$/;
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    const frame = /^at\s+(?:(.+?)\s+\()?(.+?):(\d+):(\d+)\)?$/.exec(line);
+    if (frame) {
+      const current = blocks[blocks.length - 1];
+      if (current) {
+        const [, fn, file, lineNumber, column] = frame;
+        const library = /node_modules[\\/]((?:@[^\\/]+[\\/])?[^\\/]+)/.exec(file)?.[1];
+        current.frames.push({
+          raw: line,
+          ...(fn && { function: fn }),
+          file,
+          line: Number(lineNumber),
+          column: Number(column),
+          isUserCode: !/node_modules|^node:|^internal[\\/]|<anonymous>/.test(file),
+          ...(library && { library: library.replace(/\\/g, "/") }),
+        });
+      }
+      continue;
+    }
+
+    const match = header.exec(line);
+    if (match && (blocks.length === 0 || /^(?:\[cause\]|Caused by)/.test(line))) {
+      blocks.push({ exceptionType: match[1], message: (match[2] || "").trim(), frames: [] });
+    }
+  }
+
+  return blocks;
+}
+
+function parseGo(lines: string[]): ExceptionBlock[] {
+  const blocks: ExceptionBlock[] = [];
+  const frames: StackFrame[] = [];
+  let inGoroutine = false;
+  let done = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    const panic = /^(panic|fatal error):\s*(.*?)(?:\s*\[recovered\])?$/.exec(line);
+    if (panic && !inGoroutine) {
+      const runtime = /^runtime error:\s*(.*)$/.exec(panic[2]);
+      blocks.push({
+        exceptionType: runtime ? "runtime error" : panic[1],
+        message: runtime ? runtime[1] : panic[2],
+        frames,
+      });
+      continue;
+    }
+    if (/^goroutine \d+ \[/.test(line)) {
+      // Only the panicking goroutine, which is printed first
+      done = inGoroutine;
+      inGoroutine = true;
+      continue;
+    }
+    if (!inGoroutine || done) continue;
+
+    const location = /^(.+\.go):(\d+)/.exec(lines[i + 1]?.trim() || "");
+    if (location && /^(?:created by\s+)?[\w./*()-]+\(.*\)(?: in goroutine \d+)?$|^created by /.test(line)) {
+      const fn = line.replace(/^created by\s+/, "").replace(/\(.*$/, "");
+      const file = location[1];
+      const module = /[\\/]pkg[\\/]mod[\\/](.+?)@/.exec(file)?.[1];
+      const framework = fn.startsWith("runtime.") || /[\\/]go[\\/]src[\\/]|[\\/]pkg[\\/]mod[\\/]/.test(file);
+      frames.push({
+        raw: line,
+        function: fn,
+        file,
+        line: Number(location[2]),
+        isUserCode: !framework,
+        ...(module && { library: module }),
+      });
+      i++;
+    }
+  }
+
+  // A re-panic prints the original (recovered) panic first
+  return blocks.reverse();
+}
+
+function parseDotNet(lines: string[]): ExceptionBlock[] {
+  const header = (lines.find((line) => line.trim()) || "")
+    .trim()
+    .replace(/^Unhandled (?:exception\.|Exception:)\s*/, "");
+  const typePattern = /^([A-Za-z_][\w.`]*(?:Exception|Error)|[A-Za-z_][\w`]*\.[\w.`]+)(?::\s*([\s\S]*))?$/;
+  const blocks: ExceptionBlock[] = header
+    .split(/\s*--->\s*/)
+    .map((part) => ({ ...splitException(part, typePattern), frames: [] }));
+
+  // Stack traces are printed innermost exception first
+  let index = blocks.length - 1;
+  for (const raw of lines.slice(1)) {
+    const line = raw.trim();
+    if (/^--- End of inner exception stack trace ---/.test(line)) {
+      index = Math.max(0, index - 1);
+      continue;
+    }
+    const frame = /^at\s+(.+?)(?:\s+in\s+(.+):line\s+(\d+))?$/.exec(line);
+    if (frame) {
+      const [, fn, file, lineNumber] = frame;
+      const framework = startsWithAny(fn, DOTNET_FRAMEWORK_PREFIXES);
+      blocks[index].frames.push({
+        raw: line,
+        function: fn,
+        ...(file && { file, line: Number(lineNumber) }),
+        isUserCode: !framework,
+        ...(framework && { library: fn.split(".").slice(0, 2).join(".") }),
+      });
+    }
+  }
+
+  return blocks;
+}
+
+function parseRust(lines: string[]): ExceptionBlock[] {
+  const blocks: ExceptionBlock[] = [];
+  const frames: StackFrame[] = [];
+  let causes = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    const panic = /^thread '([^']*)' panicked at (?:'(.*)', )?(\S+?):(\d+):(\d+):?$/.exec(line);
+    if (panic) {
+      // Since Rust 1.73 the message follows on the next line
+      const message = panic[2] ?? lines[++i]?.trim() ?? "";
+      frames.push({
+        raw: line,
+        file: panic[3],
+        line: Number(panic[4]),
+        column: Number(panic[5]),
+        isUserCode: !/^\/rustc\/|\.cargo[\\/]registry/.test(panic[3]),
+      });
+      blocks.push({ exceptionType: "panic", message, frames });
+      continue;
+    }
+
+    // anyhow/eyre reports returned from main
+    const error = /^Error:\s*(.*)$/.exec(line);
+    if (error && blocks.length === 0) {
+      blocks.push({ exceptionType: "Error", message: error[1], frames });
+      continue;
+    }
+    if (line === "Caused by:") {
+      causes = true;
+      continue;
+    }
+    if (causes) {
+      if (line && !/^stack backtrace:/i.test(line)) {
+        blocks.push({ message: line.replace(/^\d+:\s+/, ""), frames: [] });
+        continue;
+      }
+      causes = false;
+    }
+
+    const frame = /^\d+:\s+(?:0x[0-9a-f]+ - )?(.+)$/.exec(line);
+    if (frame) {
+      const fn = frame[1].replace(/::h[0-9a-f]{16}$/, "");
+      const location = /^at\s+(.+):(\d+):(\d+)$/.exec(lines[i + 1]?.trim() || "");
+      const file = location?.[1];
+      const crate = file && /\.cargo[\\/]registry[\\/]src[\\/][^\\/]+[\\/]([\w-]+?)-\d+\./.exec(file)?.[1];
+      const framework =
+        startsWithAny(fn, RUST_FRAMEWORK_PREFIXES) ||
+        Boolean(file && /^\/rustc\/|\.cargo[\\/]registry/.test(file));
+      frames.push({
+        raw: line,
+        function: fn,
+        ...(location && { file, line: Number(location[2]), column: Number(location[3]) }),
+        isUserCode: !framework,
+        ...(crate && { library: crate }),
+      });
+      if (location) i++;
+    }
+  }
+
+  // The last "Caused by" entry is the root cause
+  return blocks.length > 1 ? [blocks[0], ...blocks.slice(1).reverse()] : blocks;
+}
+
+function parseGeneric(lines: string[]): ExceptionBlock[] {
+  const first = lines.find((line) => line.trim()) || "";
+  const match = /^([\w.$]+(?:Error|Exception)):\s*(.*)$/.exec(first.trim());
+  return [
+    match
+      ? { exceptionType: match[1], message: match[2], frames: [] }
+      : { message: first.trim(), frames: [] },
+  ];
+}
+
+const PARSERS: Record<TraceLanguage, (lines: string[]) => ExceptionBlock[]> = {
+  python: parsePython,
+  java: parseJava,
+  javascript: parseJavaScript,
+  go: parseGo,
+  dotnet: parseDotNet,
+  rust: parseRust,
+  generic: parseGeneric,
+};
+
+/**
+ * Splits a stack trace into the thrown exception, its root cause and the top frames,
+ * marking which frames are in user code and which in runtime or library code.
+ */
+export function parseStackTrace(trace: string, language?: string): ParsedStackTrace {
+  const detected = detectTraceLanguage(trace, language);
+  const lines = trace.replace(/\r\n?/g, "\n").split("\n");
+
+  let blocks = PARSERS[detected](lines);
+  if (blocks.length === 0) {
+    blocks = parseGeneric(lines);
+  }
+
+  // blocks[0] is what was thrown; the last block is the innermost cause
+  const [primary] = blocks;
+  const root = blocks.length > 1 ? blocks[blocks.length - 1] : undefined;
+  const frames = (root?.frames.length ? root.frames : primary.frames).slice(0, MAX_FRAMES);
+
+  return {
+    language: detected,
+    ...(primary.exceptionType && { exceptionType: primary.exceptionType }),
+    message: primary.message,
+    ...(root && {
+      rootCause: {
+        ...(root.exceptionType && { exceptionType: root.exceptionType }),
+        message: root.message,
+      },
+    }),
+    frames,
+    userFrames: frames.filter((frame) => frame.isUserCode),
+  };
+}
+
+function describe(exceptionType: string | undefined, message: string): string {
+  return [exceptionType, message].filter(Boolean).join(": ").slice(0, MAX_QUERY_LENGTH);
+}
+
+/**
+ * Targeted search queries, most specific first: the root cause, the thrown
+ * exception, then the exception type with the library it surfaced in.
+ */
+export function buildTraceQueries(trace: ParsedStackTrace): string[] {
+  const queries: string[] = [];
+  if (trace.rootCause) {
+    queries.push(describe(trace.rootCause.exceptionType, trace.rootCause.message));
+  }
+  queries.push(describe(trace.exceptionType, trace.message));
+
+  const library = trace.frames.find((frame) => !frame.isUserCode && frame.library)?.library;
+  const exceptionType = trace.rootCause?.exceptionType || trace.exceptionType;
+  if (library && exceptionType) {
+    queries.push(`${exceptionType.split(".").pop()} ${library}`);
+  }
+
+  return [...new Set(queries.filter(Boolean))];
+}
@@ -1,19 +1,55 @@
-export interface SearchByErrorInput {
+export type SearchSort = "relevance" | "activity" | "creation" | "votes";
+
+// Sort order, date range and /search/advanced filters shared by the search tools
+export interface SearchFilters {
+  sort?: SearchSort; // default votes
+  fromDate?: string | number; // ISO date or timestamp, or unix seconds
+  toDate?: string | number;
+  accepted?: boolean;
+  answers?: number; // minimum number of answers
+  closed?: boolean;
+  migrated?: boolean;
+  notice?: boolean; // has a post notice
+  views?: number; // minimum views
+  title?: string; // text the title must contain
+  body?: string; // text the body must contain
+  url?: string; // url the question must link to
+  user?: number; // id of the asker
+  nottagged?: string[];
+  wiki?: boolean; // community wiki
+}
+
+export interface SearchByErrorInput extends SearchFilters {
   errorMessage: string;
   language?: string;
   technologies?: string[];
   minScore?: number;
   includeComments?: boolean;
   responseFormat?: "json" | "markdown";
+  bodyFormat?: BodyFormat;
   limit?: number;
+  cacheMode?: CacheMode;
+  site?: string; // Stack Exchange site, e.g. "serverfault"; defaults to STACKOVERFLOW_SITE
+  sites?: string[]; // federated search across several sites
+  minResults?: number; // results needed before the query tiers stop (default 1)
+  explain?: boolean; // report the ranking signals of each result
+  page?: number; // 1-based page of `limit` results
+  cursor?: string; // nextCursor of a previous call; wins over page
 }
 
-export interface SearchByTagsInput {
+export interface SearchByTagsInput extends SearchFilters {
   tags: string[];
   minScore?: number;
   includeComments?: boolean;
   responseFormat?: "json" | "markdown";
+  bodyFormat?: BodyFormat;
   limit?: number;
+  cacheMode?: CacheMode;
+  site?: string;
+  sites?: string[];
+  page?: number;
+  cursor?: string;
+  explain?: boolean;
 }
 
 export interface StackTraceInput {
@@ -21,14 +57,152 @@ export interface StackTraceInput {
   language: string;
   includeComments?: boolean;
   responseFormat?: "json" | "markdown";
+  bodyFormat?: BodyFormat;
   limit?: number;
+  cacheMode?: CacheMode;
+  site?: string;
+  explain?: boolean;
+}
+
+export interface GetQuestionInput {
+  id?: number | string; // question id, question or answer URL, or /q/ and /a/ short link
+  ids?: Array<number | string>; // several questions in one call
+  includeComments?: boolean;
+  responseFormat?: "json" | "markdown";
+  bodyFormat?: BodyFormat;
+  cacheMode?: CacheMode;
+  site?: string; // used when the id or URL does not name a site
+}
+
+// Redaction of secrets and personal data in outgoing text
+export interface RedactionFinding {
+  detector: string; // e.g. "jwt", "email", "custom"
+  confidence: "high" | "low"; // high: a secret, write tools refuse to post
+  count: number;
+}
+
+export interface RedactionResult {
+  text: string;
+  findings: RedactionFinding[];
+}
+
+// search_by_error query tiers, most specific first
+export type QueryTierName = "exact" | "normalized" | "keywords" | "keywords_untagged";
+
+export interface QueryTier {
+  name: QueryTierName;
+  query: string;
+  tags?: string[];
+}
+
+// Pagination of the search tools
+export interface PageCursor {
+  page: number; // 1-based
+  pageSize: number;
+  tier?: QueryTierName; // search_by_error keeps paging the tier that matched first
+}
+
+export interface PageInfo {
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  total?: number; // matches reported by the API; unknown offline
+}
+
+export interface Pagination {
+  page: number;
+  hasMore: boolean;
+  nextCursor?: string; // pass as `cursor` to get the next page
+  total?: number;
+}
+
+// Re-ranking of search results; each signal is between 0 and 1
+export type RankingSignal =
+  | "similarity" // error terms found in the title and body
+  | "accepted"
+  | "answerScore" // top answer score, log scaled
+  | "recency" // newest of the question and its answers
+  | "tagOverlap" // share of the requested language and technology tags
+  | "duplicate"; // closed as a duplicate
+
+export type RankingWeights = Record<RankingSignal, number>;
+
+export interface RankingContext {
+  query?: string;
+  tags?: string[];
+}
+
+export interface RankedResult {
+  result: SearchResult;
+  score: number;
+  signals: Record<RankingSignal, number>;
+}
+
+// Stack trace analysis
+export type TraceLanguage = "python" | "java" | "javascript" | "go" | "dotnet" | "rust" | "generic";
+
+export interface StackFrame {
+  raw: string;
+  function?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  isUserCode: boolean; // false for runtime, standard library and third-party frames
+  library?: string; // third-party package or namespace, when known
+}
+
+export interface ParsedStackTrace {
+  language: TraceLanguage; // parser that was used
+  exceptionType?: string;
+  message: string;
+  rootCause?: { exceptionType?: string; message: string }; // innermost cause of a chain
+  frames: StackFrame[]; // top frames, innermost first
+  userFrames: StackFrame[];
+}
+
+export interface ListSitesInput {
+  query?: string; // case-insensitive match on site name or api parameter
+  includeMeta?: boolean;
+  cacheMode?: CacheMode;
+}
+
+export interface StackExchangeSite {
+  api_site_parameter: string;
+  name: string;
+  site_url: string;
+  site_type: "main_site" | "meta_site";
+}
+
+// Per-request options shared by the fetch helpers
+export interface FetchOptions {
+  site?: string;
+  cacheMode?: CacheMode;
 }
 
+export type BodyFormat = "html" | "markdown" | "text";
+
 export interface AuthConfig {
   apiKey?: string;
   accessToken?: string;
 }
 
+// Written by `stackoverflow-mcp auth login`
+export interface StoredCredentials {
+  accessToken: string;
+  apiKey?: string; // stored with the token so writes work without any env vars
+  scope: string[];
+  expiresAt?: number; // absent for no_expiry tokens
+  createdAt: number;
+}
+
+export type TransportMode = "stdio" | "sse";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authToken?: string; // bearer token required on every request when set
+}
+
 export interface StackOverflowQuestion {
   question_id: number;
   title: string;
@@ -37,6 +211,8 @@ export interface StackOverflowQuestion {
   answer_count: number;
   is_answered: boolean;
   accepted_answer_id?: number;
+  closed_reason?: string; // e.g. "Duplicate" when the filter includes it
+  owner?: { user_id?: number; display_name?: string }; // absent when the filter leaves it out
   creation_date: number;
   tags: string[];
   link: string;
@@ -69,6 +245,7 @@ export interface SearchResult {
   question: StackOverflowQuestion;
   answers: StackOverflowAnswer[];
   comments?: SearchResultComments;
+  site?: string; // Stack Exchange site the question came from
 }
 
 // Inputs for write/vote tools
@@ -78,6 +255,19 @@ export interface PostQuestionInput {
   tags: string[];
   errorSignature: string; // succinct error summary used to check duplicates
   triedApproaches: string[]; // must include at least 3 attempted fixes
+  site?: string;
+  dryRun?: boolean; // run the checks and return the request without sending it
+  confirmationToken?: string; // from the first call; publishes that exact payload
+}
+
+// Existing question scored against a new one by post_question
+export interface DuplicateCandidate {
+  questionId: number;
+  title: string;
+  link: string;
+  score: number; // 0-1, weighted title and error signature similarity
+  titleScore: number;
+  signatureScore: number;
 }
 
 export interface PostSolutionInput {
@@ -85,16 +275,304 @@ export interface PostSolutionInput {
   body: string;
   confirmedResolved: boolean; // only true if the solution fixed the issue
   evidence: string[]; // references: test results, logs, reproduction, links
+  site?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
 }
 
 export interface ThumbsUpInput {
   postId: number; // question or answer id
   confirmedFixed: boolean; // only proceed if true
+  site?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
 }
 
 export interface CommentSolutionInput {
   questionId: number;
   body: string; // constructive comment with context
+  site?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+// Edits and deletions of the authenticated user's own posts
+export interface EditPostInput {
+  postId: number; // question or answer id
+  body: string; // full new body
+  title?: string; // questions only; defaults to the current title
+  tags?: string[]; // questions only; defaults to the current tags
+  comment: string; // edit summary shown in the revision history
+  site?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+export interface DeletePostInput {
+  postId: number;
+  site?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+export interface AcceptAnswerInput {
+  questionId: number; // a question the authenticated user asked
+  answerId: number; // must be an answer to questionId
+  confirmedFixed?: boolean; // only accept if the answer fixed the issue; required unless undo
+  undo?: boolean; // withdraw the acceptance instead
+  site?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+export type VoteType = "upvote" | "downvote";
+
+export interface UndoVoteInput {
+  postId: number;
+  vote?: VoteType; // default upvote
+  confirmedMistake: boolean; // only undo a vote that was given by mistake
+  reason: string; // why the vote was a mistake
+  site?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+export interface DownvoteInput {
+  answerId: number; // answers only
+  verifiedWrong: boolean; // only proceed if the answer was verified to be wrong or harmful
+  evidence: string[]; // what showed it: failing tests, logs, docs, reproduction
+  site?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+export interface FlagPostInput {
+  postId: number;
+  optionId?: number; // from /posts/{id}/flags/options; omit to list the options
+  comment?: string; // required by options with requires_comment
+  reason: string; // why the post needs attention
+  evidence: string[]; // what shows it: links, quotes, reproduction
+  site?: string;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+// /posts/{id}/flags/options item
+export interface FlagOption {
+  option_id: number;
+  title: string;
+  description: string;
+  requires_comment: boolean;
+  requires_site?: boolean; // migration flags
+  requires_question_id?: boolean; // duplicate flags
+  has_flagged: boolean;
+  sub_options?: FlagOption[];
+}
+
+export type WriteToolName =
+  | "post_question"
+  | "post_solution"
+  | "thumbs_up"
+  | "comment_solution"
+  | "edit_post"
+  | "delete_post"
+  | "accept_answer"
+  | "undo_vote"
+  | "downvote"
+  | "flag_post";
+
+export type WriteInput =
+  | PostQuestionInput
+  | PostSolutionInput
+  | ThumbsUpInput
+  | CommentSolutionInput
+  | EditPostInput
+  | DeletePostInput
+  | AcceptAnswerInput
+  | UndoVoteInput
+  | DownvoteInput
+  | FlagPostInput;
+
+export interface PendingConfirmation {
+  token: string;
+  tool: WriteToolName;
+  input: WriteInput; // replayed by confirm_action
+  payloadHash: string; // sha256 of the path and params, credentials excluded
+  expiresAt: number;
+}
+
+export interface ConfirmActionInput {
+  token: string;
+}
+
+// /posts item: a question or an answer
+export interface StackExchangePost {
+  post_id: number;
+  post_type: "question" | "answer";
+  owner?: { user_id?: number; display_name?: string };
+  title?: string;
+  body?: string; // with the withbody filter
+  score: number;
+  link: string;
+}
+
+// Account behind the access token, from /me and /me/privileges
+export interface StackExchangeUser {
+  user_id: number;
+  display_name: string;
+  reputation: number;
+  user_type?: string; // registered, unregistered, moderator, ...
+  link?: string;
+}
+
+export interface StackExchangePrivilege {
+  short_description: string; // e.g. "vote up"
+  description: string;
+  reputation: number;
+}
+
+export interface AccountInfo {
+  site: string;
+  user: StackExchangeUser;
+  privileges: StackExchangePrivilege[]; // the privileges the user has earned
+}
+
+export interface RequiredPrivilege {
+  privilege: string; // short_description as listed by /privileges
+  reputation: number; // threshold on Stack Overflow; lower on beta sites
+  ownPostsExempt?: boolean; // not needed on the user's own posts
+}
+
+export interface WhoamiInput {
+  site?: string;
+}
+
+// Audit log
+export type AuditOutcome = "posted" | "refused" | "failed" | "dry_run" | "pending_confirmation";
+
+export interface AuditEntry {
+  timestamp: string; // ISO 8601
+  tool: WriteToolName;
+  site: string;
+  targetPostId?: number; // question or post the write targets; absent for new questions
+  payloadHash?: string; // absent when refused before the payload was built
+  outcome: AuditOutcome;
+  reason?: string; // why the write was refused or failed
+  responseId?: number; // id of the created post or comment
+  link?: string;
+  quotaRemaining?: number;
+}
+
+// What a write handler reports back for its audit entry
+export interface AuditRecord {
+  payloadHash?: string;
+  outcome?: AuditOutcome;
+  sent?: boolean; // the request reached the API; errors from here on are failures, not refusals
+  reason?: string;
+  responseId?: number;
+  link?: string;
+}
+
+export interface AuditQuery {
+  from?: string; // ISO date or timestamp, inclusive
+  to?: string; // ISO date (whole day included) or timestamp, exclusive
+  outcome?: AuditOutcome;
+  tool?: WriteToolName;
+  limit?: number;
+}
+
+export type ListAuditLogInput = AuditQuery;
+
+// Offline backend
+export type BackendMode = "online" | "offline" | "fallback"; // fallback: online, offline on failure
+
+export interface OfflineSearchOptions {
+  tags?: string[];
+  minScore?: number;
+  limit?: number;
+  offset?: number; // results to skip, for pagination
+  filters?: SearchFilters;
+  includeComments?: boolean;
+}
+
+/**
+ * Full-text index built from a Stack Exchange data dump
+ */
+export interface OfflineIndexData {
+  version: number;
+  site: string;
+  importedAt: number;
+  questions: { [questionId: number]: StackOverflowQuestion };
+  answers: { [questionId: number]: StackOverflowAnswer[] };
+  comments: { [postId: number]: StackOverflowComment[] };
+  tags: { [tag: string]: number }; // tag name -> question count
+  postings: { [term: string]: Array<[number, number]> }; // term -> [questionId, weighted frequency]
+  docLengths: { [questionId: number]: number };
+}
+
+// MCP resources
+export type ResourceRef =
+  | { kind: "question"; id: number; site?: string }
+  | { kind: "answer"; id: number; site?: string }
+  | { kind: "tagFaq"; tag: string; site?: string };
+
+export type PostRef = Extract<ResourceRef, { kind: "question" | "answer" }>;
+
+export interface RecentResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+// MCP prompts
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+// Response cache
+export type CacheMode = "default" | "bypass" | "purge"; // bypass skips reads, purge clears everything first
+
+export type CacheEndpoint =
+  | "search"
+  | "questions"
+  | "question"
+  | "answers"
+  | "comments"
+  | "sites";
+
+export interface CacheEntry {
+  key: string;
+  endpoint: CacheEndpoint;
+  value: unknown;
+  postIds: number[]; // posts referenced by the value, used for invalidation
+  storedAt: number;
+}
+
+/**
+ * Common wrapper around every Stack Exchange API response
+ */
+export interface ApiWrapper<T> {
+  items: T[];
+  has_more?: boolean;
+  total?: number; // only with a filter that includes .total, such as the built-in "total"
+  quota_max?: number;
+  quota_remaining?: number;
+  backoff?: number; // seconds to wait before calling the same method again
+}
+
+export interface QuotaInfo {
+  remaining: number;
+  max: number;
+  updatedAt: number; // when the quota was last reported
 }
 
 /**